@@ -0,0 +1,163 @@
+/**
+ * Reading, checking and uploading attachments.
+ *
+ * Files can come from a local path or base64 content. Only allowlisted file
+ * types up to MAX_ATTACHMENT_BYTES are uploaded; the type is taken from the
+ * file extension, so files without a known extension (keys, dotfiles) are
+ * never sent. Local paths must be inside the attachment root (the working
+ * directory unless configured), after following symlinks, so e.g. exported
+ * credentials elsewhere on disk can't end up in a customer-facing reply.
+ */
+
+import { readFile, realpath, stat } from 'node:fs/promises';
+import { basename, extname, isAbsolute, relative, sep } from 'node:path';
+import type { PylonClient } from './pylon-client.js';
+
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+// File extensions that may be uploaded, and their MIME types
+const ALLOWED_TYPES: Record<string, string> = {
+	'.png': 'image/png',
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.gif': 'image/gif',
+	'.webp': 'image/webp',
+	'.pdf': 'application/pdf',
+	'.txt': 'text/plain',
+	'.log': 'text/plain',
+	'.md': 'text/markdown',
+	'.csv': 'text/csv',
+	'.json': 'application/json',
+	'.har': 'application/json',
+	'.zip': 'application/zip',
+	'.gz': 'application/gzip',
+};
+
+const ALLOWED_MIME_TYPES = new Set(Object.values(ALLOWED_TYPES));
+
+export interface PreparedAttachment {
+	name: string;
+	contentType: string;
+	data: Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Thrown when a file can't be attached, e.g. it's too large or not an allowed type.
+ */
+export class AttachmentError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'AttachmentError';
+	}
+}
+
+function formatSize(bytes: number): string {
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Returns the MIME type for a file name, checking it against the allowlist.
+ * @param mimeType - Explicit type, used instead of the extension when given
+ */
+function contentTypeFor(name: string, mimeType?: string): string {
+	const type =
+		mimeType?.toLowerCase() ?? ALLOWED_TYPES[extname(name).toLowerCase()];
+	if (!type || !ALLOWED_MIME_TYPES.has(type)) {
+		throw new AttachmentError(
+			`"${name}"${mimeType ? ` (${mimeType})` : ''} is not an allowed attachment type. Allowed extensions: ${Object.keys(ALLOWED_TYPES).join(', ')}`,
+		);
+	}
+	return type;
+}
+
+function checkSize(name: string, bytes: number): void {
+	if (bytes > MAX_ATTACHMENT_BYTES) {
+		throw new AttachmentError(
+			`"${name}" is ${formatSize(bytes)}; attachments are limited to ${formatSize(MAX_ATTACHMENT_BYTES)}.`,
+		);
+	}
+}
+
+/**
+ * Reads a local file for upload. The size is checked before the file is read.
+ * @param root - Directory files must be inside (default: the working directory)
+ */
+export async function readAttachmentFile(
+	path: string,
+	root = process.cwd(),
+): Promise<PreparedAttachment> {
+	if (!isAbsolute(path)) {
+		throw new AttachmentError(
+			`"${path}" is not an absolute path. Pass the full path to the file.`,
+		);
+	}
+	const name = basename(path);
+	const contentType = contentTypeFor(name);
+	// Symlinks are followed so the root check sees where the file really is
+	const target = await realpath(path).catch(() => undefined);
+	const info =
+		target === undefined
+			? undefined
+			: await stat(target).catch(() => undefined);
+	if (target === undefined || !info?.isFile()) {
+		throw new AttachmentError(`"${path}" is not a readable file.`);
+	}
+	const inRoot = relative(await realpath(root).catch(() => root), target);
+	if (inRoot === '..' || inRoot.startsWith(`..${sep}`) || isAbsolute(inRoot)) {
+		throw new AttachmentError(
+			`"${path}" is outside the attachment folder ${root}. Only files inside it can be attached (see PYLON_ATTACHMENT_ROOT).`,
+		);
+	}
+	checkSize(name, info.size);
+	return { name, contentType, data: await readFile(target) };
+}
+
+/**
+ * Decodes base64 file content for upload.
+ */
+export function decodeAttachment(
+	name: string,
+	contentBase64: string,
+	mimeType?: string,
+): PreparedAttachment {
+	const contentType = contentTypeFor(name, mimeType);
+	const base64 = contentBase64.replace(/\s+/g, '');
+	if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64) || base64.length % 4 === 1) {
+		throw new AttachmentError(`Content for "${name}" is not valid base64.`);
+	}
+	// Checked before decoding: 4 base64 characters encode 3 bytes
+	checkSize(name, Math.floor((base64.length * 3) / 4));
+	return { name, contentType, data: Buffer.from(base64, 'base64') };
+}
+
+/**
+ * Turns attachment references into URLs for create/reply requests: URLs pass
+ * through and absolute local paths are uploaded first.
+ * @param root - Directory local files must be inside (see readAttachmentFile)
+ */
+export async function resolveAttachmentUrls(
+	client: PylonClient,
+	references: string[] | undefined,
+	root?: string,
+): Promise<string[] | undefined> {
+	if (references === undefined) {
+		return undefined;
+	}
+	// Read every file before uploading any, so one bad path doesn't leave orphaned uploads
+	const prepared = await Promise.all(
+		references.map((reference) =>
+			/^https?:\/\//i.test(reference)
+				? reference
+				: readAttachmentFile(reference, root),
+		),
+	);
+	const urls: string[] = [];
+	for (const item of prepared) {
+		urls.push(
+			typeof item === 'string'
+				? item
+				: (await client.uploadAttachment(item)).data.url,
+		);
+	}
+	return urls;
+}
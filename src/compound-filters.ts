@@ -0,0 +1,606 @@
+/**
+ * Compound search filters with nested and/or/not groups.
+ *
+ * Pylon's search endpoints have no subfilters: `filter` is one flat map of
+ * field conditions that must all match, and group keys are rejected like any
+ * other unknown field (as they are by the mock API the tool tests run
+ * against). So groups are sent natively by folding them into those flat
+ * queries wherever the operators allow: an `and` of conditions on different
+ * operators merges into one query, as do repeated in/not_in lists, negated
+ * tags and time bounds on one field; a `not` of a single condition is sent as
+ * its negated operator; and an `or` of equals/in conditions on one field
+ * becomes a single `in`. Conditions next to an `or` of queries are copied
+ * into each branch, so every branch is one bounded search. Only groups that
+ * can't be folded fall back to separate queries whose results are combined
+ * client-side with set logic. Plans needing more than MAX_FILTER_QUERIES
+ * queries are rejected before anything is sent.
+ *
+ * Fields and operators Pylon doesn't support are left out of the plan (the
+ * search tools report them). A nested group left with nothing to match on is
+ * rejected rather than treated as matching every record.
+ */
+
+import { z } from 'zod';
+import {
+	type FilterObjectType,
+	type FilterOperator,
+	filterOperators,
+	filterSchema,
+} from './filter-fields.js';
+import {
+	describeDroppedOperators,
+	findDroppedFilterOperators,
+} from './pylon-client.js';
+
+export const MAX_FILTER_QUERIES = 10;
+export const MAX_FILTER_DEPTH = 4;
+
+/** Field conditions Pylon can search on in one query, e.g. {state: {equals: "new"}} */
+export type FilterConditions = Record<string, Record<string, unknown>>;
+
+export type FilterPlan =
+	| { kind: 'query'; conditions: FilterConditions }
+	| { kind: 'and'; children: FilterPlan[] }
+	| { kind: 'or'; children: FilterPlan[] }
+	| { kind: 'not'; child: FilterPlan };
+
+/**
+ * Thrown when a compound filter is malformed or would need too many queries.
+ */
+export class CompoundFilterError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'CompoundFilterError';
+	}
+}
+
+// Operators whose negation is another operator on the same value
+const NEGATED_OPERATORS: Partial<Record<FilterOperator, FilterOperator>> = {
+	in: 'not_in',
+	not_in: 'in',
+	contains: 'does_not_contain',
+	does_not_contain: 'contains',
+	string_contains: 'string_does_not_contain',
+	string_does_not_contain: 'string_contains',
+	is_set: 'is_unset',
+	is_unset: 'is_set',
+	time_is_after: 'time_is_before',
+	time_is_before: 'time_is_after',
+};
+
+const MATCH_ALL: FilterPlan = { kind: 'query', conditions: {} };
+
+function query(conditions: FilterConditions): FilterPlan {
+	return { kind: 'query', conditions };
+}
+
+function isMatchAll(plan: FilterPlan): boolean {
+	return plan.kind === 'query' && Object.keys(plan.conditions).length === 0;
+}
+
+function supports(
+	objectType: FilterObjectType,
+	field: string,
+	operator: FilterOperator,
+): boolean {
+	return filterOperators(objectType, field)?.includes(operator) ?? false;
+}
+
+/**
+ * Lists a query's conditions as [field, operator, value] triples.
+ */
+function conditionList(
+	conditions: FilterConditions,
+): [string, string, unknown][] {
+	return Object.entries(conditions).flatMap(([field, operators]) =>
+		Object.entries(operators).map(
+			([operator, value]) =>
+				[field, operator, value] as [string, string, unknown],
+		),
+	);
+}
+
+/**
+ * Negates a single condition with the field's own operators, or returns
+ * undefined when the field has no operator for the negation.
+ */
+function negateCondition(
+	objectType: FilterObjectType,
+	field: string,
+	operator: string,
+	value: unknown,
+): FilterPlan | undefined {
+	if (operator === 'equals' && typeof value === 'boolean') {
+		return query({ [field]: { equals: !value } });
+	}
+	// contains is negated as not_in too where it can be, so that negated tags
+	// merge into one not_in list in an `and`
+	if (
+		(operator === 'equals' || operator === 'contains') &&
+		supports(objectType, field, 'not_in')
+	) {
+		return query({ [field]: { not_in: [value] } });
+	}
+	if (operator === 'equals') {
+		return undefined;
+	}
+	if (operator === 'time_range') {
+		const range = value as { start: string; end: string };
+		return supports(objectType, field, 'time_is_before') &&
+			supports(objectType, field, 'time_is_after')
+			? {
+					kind: 'or',
+					children: [
+						query({ [field]: { time_is_before: range.start } }),
+						query({ [field]: { time_is_after: range.end } }),
+					],
+				}
+			: undefined;
+	}
+	const negated = NEGATED_OPERATORS[operator as FilterOperator];
+	return negated && supports(objectType, field, negated)
+		? query({ [field]: { [negated]: value } })
+		: undefined;
+}
+
+function negate(objectType: FilterObjectType, plan: FilterPlan): FilterPlan {
+	if (plan.kind === 'not') {
+		return plan.child;
+	}
+	if (plan.kind === 'query') {
+		const [condition, ...rest] = conditionList(plan.conditions);
+		if (condition && rest.length === 0) {
+			const negated = negateCondition(objectType, ...condition);
+			if (negated) {
+				return negated;
+			}
+		}
+	}
+	return { kind: 'not', child: plan };
+}
+
+/**
+ * Combines two values of the same operator on a field that must both match,
+ * or returns undefined when one condition can't express both. Repeated
+ * not_in lists join, repeated in lists intersect and repeated time bounds keep
+ * the tighter one.
+ */
+function combineAnd(
+	operator: string,
+	existing: unknown,
+	value: unknown,
+): unknown {
+	if (
+		existing === undefined ||
+		JSON.stringify(existing) === JSON.stringify(value)
+	) {
+		return value;
+	}
+	if (operator === 'time_is_after' || operator === 'time_is_before') {
+		const later = Date.parse(String(value)) > Date.parse(String(existing));
+		return later === (operator === 'time_is_after') ? value : existing;
+	}
+	if (!Array.isArray(existing) || !Array.isArray(value)) {
+		return undefined;
+	}
+	if (operator === 'not_in') {
+		return [...existing, ...value.filter((item) => !existing.includes(item))];
+	}
+	if (operator === 'in') {
+		const shared = existing.filter((item) => value.includes(item));
+		// Nothing in common matches nothing, which a query can't express
+		return shared.length > 0 ? shared : undefined;
+	}
+	return undefined;
+}
+
+/**
+ * Adds a condition to a query's conditions that must also match, returning
+ * the operator and value to set, or undefined when they can't be combined.
+ * A second does_not_contain on a field goes in a not_in list where the field
+ * has one, since does_not_contain takes a single value.
+ */
+function andCondition(
+	objectType: FilterObjectType,
+	conditions: FilterConditions,
+	field: string,
+	operator: string,
+	value: unknown,
+): [string, unknown] | undefined {
+	const combined = combineAnd(operator, conditions[field]?.[operator], value);
+	if (combined !== undefined) {
+		return [operator, combined];
+	}
+	if (
+		operator === 'does_not_contain' &&
+		supports(objectType, field, 'not_in')
+	) {
+		const notIn = combineAnd('not_in', conditions[field]?.['not_in'], [value]);
+		return notIn === undefined ? undefined : ['not_in', notIn];
+	}
+	return undefined;
+}
+
+/**
+ * Merges the conditions of two queries that must both match into one, or
+ * returns undefined when one query can't express both.
+ */
+function mergeConditions(
+	objectType: FilterObjectType,
+	conditions: FilterConditions,
+	extra: FilterConditions,
+): FilterConditions | undefined {
+	const merged: FilterConditions = { ...conditions };
+	for (const [field, operator, value] of conditionList(extra)) {
+		const added = andCondition(objectType, merged, field, operator, value);
+		if (!added) {
+			return undefined;
+		}
+		merged[field] = { ...merged[field], [added[0]]: added[1] };
+	}
+	return merged;
+}
+
+/**
+ * Whether a query's time bounds on some field leave no time to match, e.g.
+ * after March 1 and before February 1.
+ */
+function matchesNothing(conditions: FilterConditions): boolean {
+	return Object.values(conditions).some((operators) => {
+		const range = operators['time_range'] as
+			| { start: string; end: string }
+			| undefined;
+		const after = [operators['time_is_after'], range?.start]
+			.filter((bound) => bound !== undefined)
+			.map((bound) => Date.parse(String(bound)));
+		const before = [operators['time_is_before'], range?.end]
+			.filter((bound) => bound !== undefined)
+			.map((bound) => Date.parse(String(bound)));
+		return (
+			after.length > 0 &&
+			before.length > 0 &&
+			Math.max(...after) >= Math.min(...before)
+		);
+	});
+}
+
+/**
+ * Merges query children of an `and` into one query wherever their conditions
+ * combine, so e.g. -tag:spam -tag:test runs as a single not_in search.
+ */
+function mergeAnd(
+	objectType: FilterObjectType,
+	children: FilterPlan[],
+): FilterPlan[] {
+	const merged: FilterPlan[] = [];
+	for (const child of children) {
+		let combined = false;
+		for (const [index, plan] of merged.entries()) {
+			const conditions =
+				child.kind === 'query' && plan.kind === 'query'
+					? mergeConditions(objectType, plan.conditions, child.conditions)
+					: undefined;
+			if (conditions) {
+				merged[index] = query(conditions);
+				combined = true;
+				break;
+			}
+		}
+		if (!combined) {
+			merged.push(child);
+		}
+	}
+	return distributeAnd(objectType, merged);
+}
+
+/**
+ * Moves an `and`'s query into the branches of an `or` of queries next to it,
+ * so each branch runs as one search bounded by the query's conditions instead
+ * of the query and every branch running on their own. Branches whose time
+ * bounds then contradict each other are dropped, which turns e.g.
+ * created:>=2025-09-01 -created:2025-09-01 into one search.
+ */
+function distributeAnd(
+	objectType: FilterObjectType,
+	children: FilterPlan[],
+): FilterPlan[] {
+	const target = children.find(
+		(child): child is { kind: 'query'; conditions: FilterConditions } =>
+			child.kind === 'query',
+	);
+	const or = children.find(
+		(child): child is { kind: 'or'; children: FilterPlan[] } =>
+			child.kind === 'or' &&
+			child.children.every((branch) => branch.kind === 'query'),
+	);
+	if (!target || !or) {
+		return children;
+	}
+	const branches: FilterConditions[] = [];
+	for (const branch of or.children) {
+		const conditions =
+			branch.kind === 'query'
+				? mergeConditions(objectType, target.conditions, branch.conditions)
+				: undefined;
+		if (!conditions) {
+			return children;
+		}
+		branches.push(conditions);
+	}
+	const possible = branches.filter((branch) => !matchesNothing(branch));
+	const kept = (possible.length > 0 ? possible : branches).map(query);
+	const distributed: FilterPlan =
+		kept.length === 1 && kept[0] ? kept[0] : { kind: 'or', children: kept };
+	return children.flatMap((child) =>
+		child === target ? [distributed] : child === or ? [] : [child],
+	);
+}
+
+/**
+ * Merges equals/in conditions on the same field across the children of an
+ * `or` into one `in`.
+ */
+function mergeOr(
+	objectType: FilterObjectType,
+	children: FilterPlan[],
+): FilterPlan[] {
+	const merged: FilterPlan[] = [];
+	const inByField = new Map<string, unknown[]>();
+	for (const child of children) {
+		const [condition, ...rest] =
+			child.kind === 'query' ? conditionList(child.conditions) : [];
+		if (
+			!condition ||
+			rest.length > 0 ||
+			(condition[1] !== 'equals' && condition[1] !== 'in') ||
+			!supports(objectType, condition[0], 'in')
+		) {
+			merged.push(child);
+			continue;
+		}
+		const [field, operator, value] = condition;
+		const values = operator === 'in' ? (value as unknown[]) : [value];
+		const existing = inByField.get(field);
+		if (existing) {
+			existing.push(...values.filter((item) => !existing.includes(item)));
+		} else {
+			const list = [...values];
+			inByField.set(field, list);
+			merged.push(query({ [field]: { in: list } }));
+		}
+	}
+	return merged;
+}
+
+function simplify(objectType: FilterObjectType, plan: FilterPlan): FilterPlan {
+	if (plan.kind === 'and') {
+		const children = mergeAnd(
+			objectType,
+			plan.children
+				.flatMap((child) => (child.kind === 'and' ? child.children : [child]))
+				.filter((child) => !isMatchAll(child)),
+		);
+		return children.length === 1 && children[0]
+			? children[0]
+			: children.length === 0
+				? MATCH_ALL
+				: { kind: 'and', children };
+	}
+	if (plan.kind === 'or') {
+		const flattened = plan.children.flatMap((child) =>
+			child.kind === 'or' ? child.children : [child],
+		);
+		if (flattened.some(isMatchAll)) {
+			return MATCH_ALL;
+		}
+		const children = mergeOr(objectType, flattened);
+		return children.length === 1 && children[0]
+			? children[0]
+			: { kind: 'or', children };
+	}
+	return plan;
+}
+
+/**
+ * Validates a nested filter group with the same schema as the top level.
+ */
+function parseGroup(
+	objectType: FilterObjectType,
+	value: unknown,
+	path: string,
+): Record<string, unknown> {
+	const result = filterSchema(objectType, '').safeParse(value);
+	if (!result.success) {
+		throw new CompoundFilterError(
+			`Invalid filter at ${path}: ${z.prettifyError(result.error)}`,
+		);
+	}
+	return result.data;
+}
+
+/**
+ * Plans a search filter, which may nest and/or/not groups, into queries.
+ * A plain filter plans to a single query.
+ * @param path - Location of filter in the whole filter, for error messages
+ */
+export function planFilter(
+	objectType: FilterObjectType,
+	filter: Record<string, unknown>,
+	path = 'filter',
+	depth = 0,
+): FilterPlan {
+	if (depth > MAX_FILTER_DEPTH) {
+		throw new CompoundFilterError(
+			`Filter groups are nested more than ${MAX_FILTER_DEPTH} levels deep at ${path}. Flatten the filter.`,
+		);
+	}
+	const { and, or, not, ...fields } = filter;
+	// Only supported conditions are planned; the rest are reported by the tools
+	const conditions: FilterConditions = {};
+	for (const [field, operators] of Object.entries(fields)) {
+		if (typeof operators !== 'object' || operators === null) {
+			continue;
+		}
+		const supported = Object.entries(operators).filter(
+			([operator, value]) =>
+				value !== undefined &&
+				value !== null &&
+				supports(objectType, field, operator as FilterOperator),
+		);
+		if (supported.length > 0) {
+			conditions[field] = Object.fromEntries(supported);
+		}
+	}
+	const dropped = findDroppedFilterOperators(
+		objectType,
+		fields,
+		[],
+		`${path}.`,
+	);
+	if (
+		depth > 0 &&
+		dropped.length > 0 &&
+		Object.keys(conditions).length === 0 &&
+		and === undefined &&
+		or === undefined &&
+		not === undefined
+	) {
+		throw new CompoundFilterError(
+			`${path} has no supported conditions left, so it would match every record:\n${describeDroppedOperators(dropped)}\nFix the group and try again.`,
+		);
+	}
+
+	const parts: FilterPlan[] = [query(conditions)];
+	const groups = (key: 'and' | 'or', value: unknown): FilterPlan[] => {
+		if (!Array.isArray(value) || value.length === 0) {
+			throw new CompoundFilterError(
+				`${path}.${key} must be a non-empty list of filters.`,
+			);
+		}
+		return value.map((group, index) => {
+			const groupPath = `${path}.${key}[${index}]`;
+			return planFilter(
+				objectType,
+				parseGroup(objectType, group, groupPath),
+				groupPath,
+				depth + 1,
+			);
+		});
+	};
+	if (and !== undefined) {
+		parts.push(...groups('and', and));
+	}
+	if (or !== undefined) {
+		parts.push(
+			simplify(objectType, { kind: 'or', children: groups('or', or) }),
+		);
+	}
+	if (not !== undefined) {
+		const notPath = `${path}.not`;
+		parts.push(
+			negate(
+				objectType,
+				planFilter(
+					objectType,
+					parseGroup(objectType, not, notPath),
+					notPath,
+					depth + 1,
+				),
+			),
+		);
+	}
+	return simplify(objectType, { kind: 'and', children: parts });
+}
+
+export interface FilterPlanResult<T> {
+	items: T[];
+	/** Number of separate searches that were run */
+	queries: number;
+	/** Whether any search stopped at its item cap, so results may be incomplete */
+	truncated: boolean;
+}
+
+type RunQuery<T> = (conditions: FilterConditions) => Promise<Map<string, T>>;
+
+async function evaluate<T>(
+	plan: FilterPlan,
+	run: RunQuery<T>,
+): Promise<Map<string, T>> {
+	switch (plan.kind) {
+		case 'query':
+			return run(plan.conditions);
+		case 'or': {
+			const union = new Map<string, T>();
+			for (const child of plan.children) {
+				for (const [id, item] of await evaluate(child, run)) {
+					union.set(id, item);
+				}
+			}
+			return union;
+		}
+		case 'not': {
+			const all = await run({});
+			const excluded = await evaluate(plan.child, run);
+			return new Map([...all].filter(([id]) => !excluded.has(id)));
+		}
+		case 'and': {
+			// Negated children are subtracted from the rest rather than
+			// evaluated against every record
+			const included = plan.children.filter((child) => child.kind !== 'not');
+			let result: Map<string, T> | undefined;
+			for (const child of included) {
+				const items = await evaluate(child, run);
+				result = result
+					? new Map([...result].filter(([id]) => items.has(id)))
+					: items;
+			}
+			result ??= await run({});
+			for (const child of plan.children) {
+				if (child.kind === 'not') {
+					const excluded = await evaluate(child.child, run);
+					result = new Map([...result].filter(([id]) => !excluded.has(id)));
+				}
+			}
+			return result;
+		}
+	}
+}
+
+/**
+ * Runs a filter plan, combining the results of its queries.
+ * @param runQuery - Runs one query; truncated when it stopped at its item cap
+ * @throws CompoundFilterError if the plan needs more than MAX_FILTER_QUERIES queries
+ */
+export async function runFilterPlan<T extends { id: string }>(
+	plan: FilterPlan,
+	runQuery: (
+		conditions: FilterConditions,
+	) => Promise<{ items: T[]; truncated?: boolean }>,
+): Promise<FilterPlanResult<T>> {
+	// Count the distinct queries up front so nothing is sent for a plan that's too big
+	const planned = new Set<string>();
+	await evaluate<T>(plan, async (conditions) => {
+		planned.add(JSON.stringify(conditions));
+		return new Map();
+	});
+	if (planned.size > MAX_FILTER_QUERIES) {
+		throw new CompoundFilterError(
+			`This filter needs ${planned.size} separate searches, more than the limit of ${MAX_FILTER_QUERIES}. Simplify it, e.g. list alternative values of one field with "in" instead of separate "or" groups.`,
+		);
+	}
+
+	const results = new Map<string, Map<string, T>>();
+	let truncated = false;
+	const items = await evaluate<T>(plan, async (conditions) => {
+		const key = JSON.stringify(conditions);
+		let result = results.get(key);
+		if (!result) {
+			const page = await runQuery(conditions);
+			truncated ||= page.truncated === true;
+			result = new Map(page.items.map((item) => [item.id, item]));
+			results.set(key, result);
+		}
+		return result;
+	});
+	return { items: [...items.values()], queries: results.size, truncated };
+}
@@ -0,0 +1,195 @@
+/**
+ * Validation of custom field values against the org's field definitions.
+ *
+ * Tools take custom fields as `{ [slug]: value }`. Before a request is sent,
+ * each value is checked against its field's type and options and converted to
+ * the `{ slug, value }` / `{ slug, values }` shape the Pylon API expects, so a
+ * typo in a slug or option fails with the valid choices instead of a 400.
+ */
+
+import type {
+	CustomField,
+	CustomFieldObjectType,
+	CustomFieldValue,
+} from './pylon-client.js';
+import type { Resolver } from './resolver.js';
+
+export type CustomFieldInput = string | number | boolean | string[];
+
+/**
+ * Thrown when one or more custom field values don't match their definitions.
+ */
+export class CustomFieldValidationError extends Error {
+	readonly problems: string[];
+
+	constructor(objectType: CustomFieldObjectType, problems: string[]) {
+		super(
+			`Invalid ${objectType} custom fields:\n${problems.map((problem) => `- ${problem}`).join('\n')}\nUse pylon_list_custom_fields to see field types and options.`,
+		);
+		this.name = 'CustomFieldValidationError';
+		this.problems = problems;
+	}
+}
+
+/**
+ * Maps an option slug or label (case-insensitive) to its slug.
+ */
+function findOption(field: CustomField, value: string): string | undefined {
+	const needle = value.toLowerCase();
+	return field.select_metadata?.options.find(
+		(option) =>
+			option.slug.toLowerCase() === needle ||
+			option.label.toLowerCase() === needle,
+	)?.slug;
+}
+
+function describeOptions(field: CustomField): string {
+	return (field.select_metadata?.options ?? [])
+		.map((option) => option.slug)
+		.join(', ');
+}
+
+/**
+ * Checks one value against its field definition.
+ * Returns the API value, or a problem description.
+ */
+function convertValue(
+	field: CustomField,
+	input: CustomFieldInput,
+): CustomFieldValue | string {
+	const { slug } = field;
+	const got = Array.isArray(input)
+		? 'a list'
+		: `${typeof input} ${JSON.stringify(input)}`;
+
+	switch (field.type) {
+		case 'text':
+		case 'user':
+			return typeof input === 'string'
+				? { slug, value: input }
+				: `expected a string, got ${got}`;
+		case 'url':
+			return typeof input === 'string' && URL.canParse(input)
+				? { slug, value: input }
+				: `expected a URL, got ${got}`;
+		case 'number':
+			return typeof input === 'number' && Number.isInteger(input)
+				? { slug, value: String(input) }
+				: `expected a whole number, got ${got}`;
+		case 'decimal':
+			return typeof input === 'number' && Number.isFinite(input)
+				? { slug, value: String(input) }
+				: `expected a number, got ${got}`;
+		case 'boolean':
+			return typeof input === 'boolean'
+				? { slug, value: String(input) }
+				: `expected true or false, got ${got}`;
+		case 'date':
+			return typeof input === 'string' &&
+				/^\d{4}-\d{2}-\d{2}$/.test(input) &&
+				!Number.isNaN(Date.parse(input))
+				? { slug, value: input }
+				: `expected a date like 2024-01-31, got ${got}`;
+		case 'datetime':
+			return typeof input === 'string' && !Number.isNaN(Date.parse(input))
+				? { slug, value: input }
+				: `expected an RFC3339 timestamp like 2024-01-31T00:00:00Z, got ${got}`;
+		case 'select': {
+			const option =
+				typeof input === 'string' ? findOption(field, input) : undefined;
+			return option
+				? { slug, value: option }
+				: `${JSON.stringify(input)} is not an option (${describeOptions(field)})`;
+		}
+		case 'multiselect': {
+			const items = Array.isArray(input) ? input : [input];
+			const values: string[] = [];
+			const invalid: string[] = [];
+			for (const item of items) {
+				const option =
+					typeof item === 'string' ? findOption(field, item) : undefined;
+				if (option) {
+					values.push(option);
+				} else {
+					invalid.push(JSON.stringify(item));
+				}
+			}
+			return invalid.length === 0
+				? { slug, values }
+				: `${invalid.join(', ')} ${invalid.length === 1 ? 'is not an option' : 'are not options'} (${describeOptions(field)})`;
+		}
+		default:
+			// Unknown field type: pass scalars through as strings and let Pylon decide
+			return Array.isArray(input)
+				? { slug, values: input }
+				: { slug, value: String(input) };
+	}
+}
+
+/**
+ * Validates custom field values by slug against the field definitions and
+ * converts them to the API shape. Reports every problem at once.
+ */
+export function validateCustomFieldValues(
+	objectType: CustomFieldObjectType,
+	definitions: CustomField[],
+	values: Record<string, CustomFieldInput>,
+): CustomFieldValue[] {
+	const bySlug = new Map(
+		definitions
+			.filter((field) => field.object_type === objectType)
+			.map((field) => [field.slug, field]),
+	);
+	const problems: string[] = [];
+	const result: CustomFieldValue[] = [];
+
+	for (const [slug, input] of Object.entries(values)) {
+		const field = bySlug.get(slug);
+		if (!field) {
+			problems.push(
+				`${slug}: no ${objectType} custom field with this slug (available: ${[...bySlug.keys()].join(', ') || 'none'})`,
+			);
+			continue;
+		}
+		const converted = convertValue(field, input);
+		if (typeof converted === 'string') {
+			problems.push(`${slug} (${field.type}): ${converted}`);
+		} else {
+			result.push(converted);
+		}
+	}
+
+	if (problems.length > 0) {
+		throw new CustomFieldValidationError(objectType, problems);
+	}
+	return result;
+}
+
+/**
+ * Validates custom field values for a create/update tool and resolves
+ * user-type values (emails or names) to user IDs.
+ * Returns undefined when no custom fields were given.
+ */
+export async function prepareCustomFields(
+	resolver: Resolver,
+	objectType: CustomFieldObjectType,
+	values: Record<string, CustomFieldInput> | undefined,
+): Promise<CustomFieldValue[] | undefined> {
+	if (values === undefined) {
+		return undefined;
+	}
+	const definitions = await resolver.customFieldDefinitions(objectType);
+	const fields = validateCustomFieldValues(objectType, definitions, values);
+	const userSlugs = new Set(
+		definitions
+			.filter((field) => field.type === 'user')
+			.map((field) => field.slug),
+	);
+	return Promise.all(
+		fields.map(async (field) =>
+			userSlugs.has(field.slug) && field.value !== undefined
+				? { ...field, value: await resolver.resolveUser(field.value) }
+				: field,
+		),
+	);
+}
@@ -0,0 +1,232 @@
+/**
+ * Typed errors for failed Pylon API requests.
+ *
+ * Each error carries the HTTP status, the Pylon request_id (when present) and
+ * the parsed error body, and its message is written so that an LLM client can
+ * act on it (e.g. "Issue 1234 not found") rather than a raw status dump.
+ */
+
+export interface PylonErrorBody {
+	errors?: string[];
+	request_id?: string;
+	[key: string]: unknown;
+}
+
+export interface PylonApiErrorDetails {
+	status: number;
+	statusText: string;
+	method: string;
+	path: string;
+	body: PylonErrorBody | string;
+	retryAfterMs?: number;
+}
+
+/**
+ * Base class for all non-2xx responses from the Pylon API.
+ */
+export class PylonApiError extends Error {
+	readonly status: number;
+	readonly statusText: string;
+	readonly method: string;
+	readonly path: string;
+	readonly requestId: string | undefined;
+	readonly body: PylonErrorBody | string;
+
+	constructor(message: string, details: PylonApiErrorDetails) {
+		const requestId =
+			typeof details.body === 'object' ? details.body.request_id : undefined;
+		super(requestId ? `${message} (request_id: ${requestId})` : message);
+		this.name = 'PylonApiError';
+		this.status = details.status;
+		this.statusText = details.statusText;
+		this.method = details.method;
+		this.path = details.path;
+		this.requestId = requestId;
+		this.body = details.body;
+	}
+
+	/**
+	 * Error strings reported by Pylon, or the raw body text if it was not JSON.
+	 */
+	get apiMessages(): string[] {
+		return extractApiMessages(this.body);
+	}
+}
+
+/** 401 and 403 responses: the token is invalid or lacks permission. */
+export class PylonAuthError extends PylonApiError {
+	constructor(message: string, details: PylonApiErrorDetails) {
+		super(message, details);
+		this.name = 'PylonAuthError';
+	}
+}
+
+/** 404 responses: the referenced resource does not exist. */
+export class PylonNotFoundError extends PylonApiError {
+	constructor(message: string, details: PylonApiErrorDetails) {
+		super(message, details);
+		this.name = 'PylonNotFoundError';
+	}
+}
+
+/** 400 and 422 responses: the request body or parameters were rejected. */
+export class PylonValidationError extends PylonApiError {
+	constructor(message: string, details: PylonApiErrorDetails) {
+		super(message, details);
+		this.name = 'PylonValidationError';
+	}
+}
+
+/** 429 responses: too many requests. */
+export class PylonRateLimitError extends PylonApiError {
+	readonly retryAfterMs: number | undefined;
+
+	constructor(message: string, details: PylonApiErrorDetails) {
+		super(message, details);
+		this.name = 'PylonRateLimitError';
+		this.retryAfterMs = details.retryAfterMs;
+	}
+}
+
+/** 5xx responses: Pylon failed to handle the request. */
+export class PylonServerError extends PylonApiError {
+	constructor(message: string, details: PylonApiErrorDetails) {
+		super(message, details);
+		this.name = 'PylonServerError';
+	}
+}
+
+/**
+ * Parses an error response body, falling back to the raw text if it is not JSON.
+ */
+export function parseErrorBody(text: string): PylonErrorBody | string {
+	try {
+		const parsed: unknown = JSON.parse(text);
+		if (
+			typeof parsed === 'object' &&
+			parsed !== null &&
+			!Array.isArray(parsed)
+		) {
+			return parsed as PylonErrorBody;
+		}
+	} catch {
+		// Not JSON - keep the raw text
+	}
+	return text;
+}
+
+function extractApiMessages(body: PylonErrorBody | string): string[] {
+	if (typeof body === 'string') {
+		return body ? [body] : [];
+	}
+	return body.errors ?? [];
+}
+
+/**
+ * Names a resource from its collection segment, e.g. "knowledge-bases" -> "knowledge base".
+ */
+function singularize(collection: string): string {
+	const name = collection.replace(/[-_]/g, ' ');
+	return name.endsWith('s') ? name.slice(0, -1) : name;
+}
+
+/**
+ * Describes the resource a request path refers to, from its last
+ * collection/ID pair, e.g. "/issues/1234/followers" -> "issue 1234" and
+ * "/knowledge-bases/kb_1/articles/a_1" -> "article a_1".
+ */
+function describeResource(path: string): string {
+	const segments = (path.split('?')[0] ?? '').split('/').filter(Boolean);
+	if (segments.length === 0) {
+		return 'resource';
+	}
+	// POST /issues/search etc. are endpoints, not records
+	if (segments.at(-1) === 'search') {
+		const collection = segments.at(-2);
+		return collection
+			? `${singularize(collection)} search endpoint`
+			: 'search endpoint';
+	}
+	// Paths alternate collection and ID segments, so IDs are at odd indexes
+	const idIndex =
+		segments.length % 2 === 0 ? segments.length - 1 : segments.length - 2;
+	const collection = segments[Math.max(idIndex - 1, 0)] ?? '';
+	const id = idIndex > 0 ? segments[idIndex] : undefined;
+	return id
+		? `${singularize(collection)} ${decodeURIComponent(id)}`
+		: singularize(collection);
+}
+
+function withApiMessages(message: string, apiMessages: string[]): string {
+	return apiMessages.length > 0
+		? `${message}: ${apiMessages.join('; ')}`
+		: message;
+}
+
+/**
+ * Creates the PylonApiError subclass matching a failed response.
+ */
+export function createPylonApiError(
+	details: PylonApiErrorDetails,
+): PylonApiError {
+	const { status, method, path } = details;
+	const apiMessages = extractApiMessages(details.body);
+
+	if (status === 401) {
+		return new PylonAuthError(
+			'Pylon rejected the API token (401). Check that PYLON_API_TOKEN is valid and has not been revoked',
+			details,
+		);
+	}
+	if (status === 403) {
+		return new PylonAuthError(
+			withApiMessages(
+				`Token lacks permission for ${method} ${path} (403). Pylon API tokens must be created by an Admin user`,
+				apiMessages,
+			),
+			details,
+		);
+	}
+	if (status === 404) {
+		const resource = describeResource(path);
+		return new PylonNotFoundError(
+			`${resource.charAt(0).toUpperCase()}${resource.slice(1)} not found`,
+			details,
+		);
+	}
+	if (status === 400 || status === 422) {
+		return new PylonValidationError(
+			withApiMessages(
+				`Pylon rejected ${method} ${path} as invalid (${status})`,
+				apiMessages,
+			),
+			details,
+		);
+	}
+	if (status === 429) {
+		const wait =
+			details.retryAfterMs !== undefined
+				? ` Retry after ${Math.ceil(details.retryAfterMs / 1000)}s.`
+				: ' Wait a moment before retrying.';
+		return new PylonRateLimitError(
+			`Pylon rate limit exceeded (429).${wait}`,
+			details,
+		);
+	}
+	if (status >= 500) {
+		return new PylonServerError(
+			withApiMessages(
+				`Pylon API is unavailable (${status} ${details.statusText}). Try again shortly`,
+				apiMessages,
+			),
+			details,
+		);
+	}
+	return new PylonApiError(
+		withApiMessages(
+			`Pylon API error: ${status} ${details.statusText}`,
+			apiMessages,
+		),
+		details,
+	);
+}
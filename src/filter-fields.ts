@@ -0,0 +1,256 @@
+/**
+ * Searchable fields for each object type and the operators Pylon accepts on
+ * them.
+ *
+ * This registry is the single source of truth for search filters: the search
+ * tools' filter schemas (including the operator lists in their descriptions)
+ * and the client's filter cleaning are generated from it, so making a field
+ * searchable is one entry here.
+ */
+
+import { z } from 'zod';
+
+export type FilterObjectType = 'issue' | 'account' | 'contact' | 'user';
+
+export type FilterOperator =
+	| 'equals'
+	| 'in'
+	| 'not_in'
+	| 'is_set'
+	| 'is_unset'
+	| 'contains'
+	| 'does_not_contain'
+	| 'string_contains'
+	| 'string_does_not_contain'
+	| 'time_is_after'
+	| 'time_is_before'
+	| 'time_range';
+
+export interface FilterField {
+	operators: readonly FilterOperator[];
+	description: string;
+	/** Allowed values for equals/in/not_in (default any string) */
+	values?: readonly [string, ...string[]];
+	/** Value type for equals/in/not_in (default string) */
+	type?: 'boolean';
+}
+
+export const ISSUE_PRIORITIES = ['urgent', 'high', 'medium', 'low'] as const;
+
+const TIME_OPERATORS = [
+	'time_is_after',
+	'time_is_before',
+	'time_range',
+] as const;
+const MATCH_OPERATORS = ['equals', 'in', 'not_in'] as const;
+// IDs that may be unset, e.g. an unassigned issue
+const OPTIONAL_ID_OPERATORS = [
+	'equals',
+	'in',
+	'not_in',
+	'is_set',
+	'is_unset',
+] as const;
+const TAG_OPERATORS = ['contains', 'does_not_contain', 'in', 'not_in'] as const;
+const TEXT_OPERATORS = ['string_contains', 'string_does_not_contain'] as const;
+
+export const FILTER_FIELDS: Record<
+	FilterObjectType,
+	Record<string, FilterField>
+> = {
+	issue: {
+		created_at: {
+			operators: TIME_OPERATORS,
+			description: 'Filter by creation time (RFC3339 format)',
+		},
+		updated_at: {
+			operators: TIME_OPERATORS,
+			description: 'Filter by last update time (RFC3339 format)',
+		},
+		account_id: {
+			operators: OPTIONAL_ID_OPERATORS,
+			description: 'Filter by account ID',
+		},
+		requester_id: {
+			operators: OPTIONAL_ID_OPERATORS,
+			description: 'Filter by requester ID',
+		},
+		state: {
+			operators: MATCH_OPERATORS,
+			description:
+				'Filter by state: new, waiting_on_you, waiting_on_customer, on_hold, closed',
+		},
+		tags: { operators: TAG_OPERATORS, description: 'Filter by tags' },
+		// body_html is NOT supported by the Pylon API
+		title: { operators: TEXT_OPERATORS, description: 'Filter by title' },
+		assignee_id: {
+			operators: OPTIONAL_ID_OPERATORS,
+			description: 'Filter by assignee ID',
+		},
+		team_id: {
+			operators: OPTIONAL_ID_OPERATORS,
+			description: 'Filter by team ID',
+		},
+		resolved_at: {
+			operators: TIME_OPERATORS,
+			description: 'Filter by resolution time (RFC3339 format)',
+		},
+		latest_message_activity_at: {
+			operators: TIME_OPERATORS,
+			description: 'Filter by latest message activity time (RFC3339 format)',
+		},
+		ticket_form_id: {
+			operators: OPTIONAL_ID_OPERATORS,
+			description: 'Filter by ticket form ID',
+		},
+		follower_user_id: {
+			operators: MATCH_OPERATORS,
+			description: 'Filter by follower user ID',
+		},
+		follower_contact_id: {
+			operators: MATCH_OPERATORS,
+			description: 'Filter by follower contact ID',
+		},
+		issue_type: {
+			operators: MATCH_OPERATORS,
+			description: 'Filter by issue type: Conversation or Ticket',
+		},
+		priority: {
+			operators: MATCH_OPERATORS,
+			description: 'Filter by priority',
+			values: ISSUE_PRIORITIES,
+		},
+		source: {
+			operators: MATCH_OPERATORS,
+			description:
+				'Filter by the channel the issue came from, e.g. email, slack, chat_widget, form, manual',
+		},
+		customer_portal_visible: {
+			operators: ['equals'],
+			description:
+				'Filter by whether the issue is visible in the customer portal',
+			type: 'boolean',
+		},
+	},
+	account: {
+		domains: {
+			operators: ['contains', 'does_not_contain'],
+			description: 'Filter by domains',
+		},
+		tags: { operators: TAG_OPERATORS, description: 'Filter by tags' },
+		name: {
+			operators: ['equals', 'string_contains'],
+			description: 'Filter by account name',
+		},
+		external_ids: {
+			operators: OPTIONAL_ID_OPERATORS,
+			description: 'Filter by external IDs',
+		},
+	},
+	contact: {
+		id: { operators: MATCH_OPERATORS, description: 'Filter by contact ID' },
+		email: {
+			operators: ['equals', 'string_contains', 'in', 'not_in'],
+			description: 'Filter by email',
+		},
+		account_id: {
+			operators: OPTIONAL_ID_OPERATORS,
+			description: 'Filter by account ID',
+		},
+	},
+	user: {
+		email: {
+			operators: ['equals', 'string_contains', 'in', 'not_in'],
+			description: 'Filter by email',
+		},
+	},
+};
+
+/**
+ * Returns the operators Pylon accepts on a field, or undefined for fields
+ * that aren't in the registry.
+ */
+export function filterOperators(
+	objectType: FilterObjectType,
+	fieldName: string,
+): readonly FilterOperator[] | undefined {
+	return Object.hasOwn(FILTER_FIELDS[objectType], fieldName)
+		? FILTER_FIELDS[objectType][fieldName]?.operators
+		: undefined;
+}
+
+/**
+ * Schema for the value of one operator on a field.
+ */
+function operatorValueSchema(
+	field: FilterField,
+	operator: FilterOperator,
+): z.ZodType {
+	const value = field.values
+		? z.enum(field.values)
+		: field.type === 'boolean'
+			? z.boolean()
+			: z.string();
+	switch (operator) {
+		case 'equals':
+			return value;
+		case 'in':
+		case 'not_in':
+			return z.array(value);
+		case 'is_set':
+		case 'is_unset':
+			return z.boolean();
+		case 'time_range':
+			return z.object({ start: z.string(), end: z.string() });
+		default:
+			return z.string();
+	}
+}
+
+// Nested groups take filters of this same shape. They're loosely typed to
+// keep the tool schema small; planFilter validates each group.
+const filterGroup = z.record(z.string(), z.unknown());
+
+/**
+ * Builds the filter parameter schema for a search tool, with and/or/not
+ * groups. Unknown fields and operators are let through so the client can
+ * report them instead of zod silently stripping them.
+ * @param example - Example filter shown in the description
+ */
+export function filterSchema(objectType: FilterObjectType, example: string) {
+	const shape: Record<string, z.ZodOptional<z.ZodType>> = {};
+	for (const [name, field] of Object.entries(FILTER_FIELDS[objectType])) {
+		const operators: Record<string, z.ZodOptional<z.ZodType>> = {};
+		for (const operator of field.operators) {
+			operators[operator] = operatorValueSchema(field, operator).optional();
+		}
+		const details = [`Operators: ${field.operators.join(', ')}`];
+		if (field.values) {
+			details.push(`values: ${field.values.join(', ')}`);
+		}
+		shape[name] = z
+			.looseObject(operators)
+			.optional()
+			.describe(`${field.description}. ${details.join('; ')}`);
+	}
+	shape['and'] = z
+		.array(filterGroup)
+		.optional()
+		.describe(
+			'Filters that must all match. Each takes the same fields and groups as this filter',
+		);
+	shape['or'] = z
+		.array(filterGroup)
+		.optional()
+		.describe(
+			'Filters of which at least one must match, e.g. [{priority: {equals: "urgent"}}, {tags: {contains: "outage"}}]',
+		);
+	shape['not'] = filterGroup
+		.optional()
+		.describe('A filter that must not match');
+	return z
+		.looseObject(shape)
+		.describe(
+			`Filter object. Each field requires an operator like ${example}. Fields and groups are all ANDed together`,
+		);
+}
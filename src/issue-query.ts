@@ -0,0 +1,462 @@
+/**
+ * Compact query-string language for issue search, parsed into the structured
+ * filter pylon_search_issues takes.
+ *
+ * A query is a list of terms that must all match, optionally separated by OR:
+ *
+ *   state:waiting_on_you tag:bug assignee:me created:>2025-09-01 -tag:spam "login error"
+ *
+ * - `key:value` qualifiers filter on a field; `a,b` matches any of the values
+ * - a leading `-` negates a term
+ * - bare words search the title for the words together, in order; each
+ *   "quoted phrase" is a separate title search
+ * - `none` matches issues without an assignee, team, account, etc.
+ * - dates take `>`, `>=`, `<`, `<=`, a `start..end` range, or a single day
+ *
+ * People, accounts, teams and ticket forms are references, resolved the same
+ * way as in the other tools (ID, email, name, ...).
+ */
+
+import { ISSUE_PRIORITIES } from './filter-fields.js';
+import type { Resolver } from './resolver.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type IssueQueryFilter = Record<string, unknown>;
+
+/**
+ * Thrown when a query can't be parsed; the message points at the offending
+ * token.
+ */
+export class QueryParseError extends Error {
+	readonly token: string;
+	/** Offset of the token in the query */
+	readonly position: number;
+
+	constructor(query: string, token: string, position: number, reason: string) {
+		super(
+			`Can't parse query at "${token}": ${reason}\n  ${query}\n  ${' '.repeat(position)}${'^'.repeat(Math.max(token.length, 1))}`,
+		);
+		this.name = 'QueryParseError';
+		this.token = token;
+		this.position = position;
+	}
+}
+
+interface QueryTerm {
+	/** The term as written, including any - prefix */
+	token: string;
+	position: number;
+	negated: boolean;
+	/** Qualifier, e.g. "state"; undefined for title text */
+	key?: string;
+	value: string;
+	/** Whether the value was quoted, so commas are literal */
+	quoted: boolean;
+}
+
+type Condition = Record<string, Record<string, unknown>>;
+
+interface QueryContext {
+	resolver: Resolver;
+	/** User reference that "me" stands for */
+	currentUser?: string;
+	fail: (reason: string) => never;
+}
+
+/**
+ * Splits a query into terms, keeping quoted text together. OR separators are
+ * returned as terms too.
+ */
+function tokenize(query: string): QueryTerm[] {
+	const tokens: QueryTerm[] = [];
+	let index = 0;
+	while (index < query.length) {
+		if (/\s/.test(query[index] ?? '')) {
+			index++;
+			continue;
+		}
+		const start = index;
+		while (index < query.length && !/\s/.test(query[index] ?? '')) {
+			if (query[index] === '"') {
+				const close = query.indexOf('"', index + 1);
+				if (close === -1) {
+					throw new QueryParseError(
+						query,
+						query.slice(index),
+						index,
+						'unterminated quote',
+					);
+				}
+				index = close;
+			}
+			index++;
+		}
+		const token = query.slice(start, index);
+		const negated = token.length > 1 && token.startsWith('-');
+		const body = negated ? token.slice(1) : token;
+		const qualifier = /^([a-z_]+):(.*)$/i.exec(body);
+		const raw = qualifier ? (qualifier[2] ?? '') : body;
+		const quoted = raw.length >= 2 && raw.startsWith('"') && raw.endsWith('"');
+		tokens.push({
+			token,
+			position: start,
+			negated,
+			key: qualifier?.[1]?.toLowerCase(),
+			value: quoted ? raw.slice(1, -1) : raw,
+			quoted,
+		});
+	}
+	return tokens;
+}
+
+function splitValues(term: QueryTerm): string[] {
+	return term.quoted
+		? [term.value]
+		: term.value.split(',').filter((value) => value !== '');
+}
+
+/**
+ * Builds an equals or in condition from a term's values.
+ */
+function matchCondition(field: string, values: unknown[]): Condition {
+	return values.length === 1
+		? { [field]: { equals: values[0] } }
+		: { [field]: { in: values } };
+}
+
+/**
+ * Parses a date or RFC3339 timestamp. Dates without a time are whole UTC days.
+ * @returns The start of the day or time, and whether it was a date only
+ */
+function parseTime(
+	value: string,
+	context: QueryContext,
+): { time: number; dateOnly: boolean } {
+	const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+	const time = new Date(dateOnly ? `${value}T00:00:00Z` : value).getTime();
+	if (Number.isNaN(time) || (!dateOnly && !/^\d{4}-\d{2}-\d{2}T/.test(value))) {
+		context.fail(
+			`"${value}" is not a date. Use YYYY-MM-DD or an RFC3339 timestamp like 2025-09-01T09:00:00Z`,
+		);
+	}
+	return { time, dateOnly };
+}
+
+function iso(time: number): string {
+	return new Date(time).toISOString().replace('.000Z', 'Z');
+}
+
+/**
+ * Builds a time condition from `>D`, `>=D`, `<D`, `<=D`, `A..B` or `D`.
+ * Dates cover the whole day, so `>2025-09-01` starts on September 2.
+ */
+function timeCondition(
+	field: string,
+	value: string,
+	context: QueryContext,
+): Condition {
+	const comparison = /^(>=|<=|>|<)(.+)$/.exec(value);
+	if (comparison) {
+		const [, operator, bound = ''] = comparison;
+		const { time, dateOnly } = parseTime(bound, context);
+		const endOfDay = dateOnly ? time + MS_PER_DAY : time;
+		switch (operator) {
+			case '>':
+				return { [field]: { time_is_after: iso(endOfDay) } };
+			case '>=':
+				return { [field]: { time_is_after: iso(time) } };
+			case '<':
+				return { [field]: { time_is_before: iso(time) } };
+			default:
+				return { [field]: { time_is_before: iso(endOfDay) } };
+		}
+	}
+
+	const [from = '', to, ...rest] = value.split('..');
+	if (rest.length > 0) {
+		context.fail('use a single start..end range');
+	}
+	if (to === undefined) {
+		const { time, dateOnly } = parseTime(from, context);
+		if (!dateOnly) {
+			context.fail(
+				'a single timestamp matches nothing; use >, <, or a start..end range',
+			);
+		}
+		return {
+			[field]: {
+				time_range: { start: iso(time), end: iso(time + MS_PER_DAY) },
+			},
+		};
+	}
+	if (from === '*' || to === '*') {
+		if (from === to) {
+			context.fail('a range needs at least one date');
+		}
+		return from === '*'
+			? timeCondition(field, `<=${to}`, context)
+			: timeCondition(field, `>=${from}`, context);
+	}
+	const start = parseTime(from, context);
+	const end = parseTime(to, context);
+	const endTime = end.dateOnly ? end.time + MS_PER_DAY : end.time;
+	if (start.time >= endTime) {
+		context.fail('the range ends before it starts');
+	}
+	return {
+		[field]: { time_range: { start: iso(start.time), end: iso(endTime) } },
+	};
+}
+
+/**
+ * Builds a condition on a reference field, resolving each value to an ID.
+ * `none` matches issues where the field is unset.
+ */
+async function referenceCondition(
+	field: string,
+	values: string[],
+	resolve: (reference: string) => Promise<string>,
+	context: QueryContext,
+): Promise<Condition> {
+	if (values.length === 1 && values[0]?.toLowerCase() === 'none') {
+		return { [field]: { is_unset: true } };
+	}
+	const ids: string[] = [];
+	for (const value of values) {
+		try {
+			ids.push(await resolve(value));
+		} catch (error) {
+			if (error instanceof QueryParseError) {
+				throw error;
+			}
+			context.fail(error instanceof Error ? error.message : String(error));
+		}
+	}
+	return matchCondition(field, ids);
+}
+
+type QualifierHandler = (
+	term: QueryTerm,
+	context: QueryContext,
+) => Condition | Promise<Condition>;
+
+const resolveUserOrMe =
+	(context: QueryContext) =>
+	(reference: string): Promise<string> => {
+		if (reference.toLowerCase() !== 'me') {
+			return context.resolver.resolveUser(reference);
+		}
+		if (!context.currentUser) {
+			context.fail(
+				'"me" needs PYLON_USER_EMAIL to be set to your Pylon email; use your email or name instead',
+			);
+		}
+		return context.resolver.resolveUser(context.currentUser);
+	};
+
+const QUALIFIERS = {
+	state: (term) => matchCondition('state', splitValues(term)),
+	priority: (term, context) => {
+		const values = splitValues(term).map((value) => value.toLowerCase());
+		for (const value of values) {
+			if (!(ISSUE_PRIORITIES as readonly string[]).includes(value)) {
+				context.fail(
+					`unknown priority "${value}"; use ${ISSUE_PRIORITIES.join(', ')}`,
+				);
+			}
+		}
+		return matchCondition('priority', values);
+	},
+	tag: (term) => {
+		const values = splitValues(term);
+		return values.length === 1
+			? { tags: { contains: values[0] } }
+			: { tags: { in: values } };
+	},
+	title: (term) => ({ title: { string_contains: term.value } }),
+	type: (term) =>
+		matchCondition(
+			'issue_type',
+			splitValues(term).map(
+				(value) => value.charAt(0).toUpperCase() + value.slice(1).toLowerCase(),
+			),
+		),
+	source: (term) => matchCondition('source', splitValues(term)),
+	portal: (term, context) => {
+		const value = term.value.toLowerCase();
+		if (value !== 'true' && value !== 'false') {
+			context.fail('use portal:true or portal:false');
+		}
+		return { customer_portal_visible: { equals: value === 'true' } };
+	},
+	assignee: (term, context) =>
+		referenceCondition(
+			'assignee_id',
+			splitValues(term),
+			resolveUserOrMe(context),
+			context,
+		),
+	requester: (term, context) =>
+		referenceCondition(
+			'requester_id',
+			splitValues(term),
+			(reference) => context.resolver.resolveContact(reference),
+			context,
+		),
+	account: (term, context) =>
+		referenceCondition(
+			'account_id',
+			splitValues(term),
+			(reference) => context.resolver.resolveAccount(reference),
+			context,
+		),
+	team: (term, context) =>
+		referenceCondition(
+			'team_id',
+			splitValues(term),
+			(reference) => context.resolver.resolveTeam(reference),
+			context,
+		),
+	form: (term, context) =>
+		referenceCondition(
+			'ticket_form_id',
+			splitValues(term),
+			(reference) => context.resolver.resolveTicketForm(reference),
+			context,
+		),
+	created: (term, context) => timeCondition('created_at', term.value, context),
+	updated: (term, context) => timeCondition('updated_at', term.value, context),
+	resolved: (term, context) =>
+		timeCondition('resolved_at', term.value, context),
+	activity: (term, context) =>
+		timeCondition('latest_message_activity_at', term.value, context),
+} satisfies Record<string, QualifierHandler>;
+
+type QualifierName = keyof typeof QUALIFIERS;
+
+function isQualifier(key: string): key is QualifierName {
+	return Object.hasOwn(QUALIFIERS, key);
+}
+
+// Alternative spellings of qualifiers
+const QUALIFIER_ALIASES: Record<string, QualifierName> = {
+	tags: 'tag',
+	label: 'tag',
+	status: 'state',
+};
+
+/**
+ * Negates a term's condition. A single date bound flips to the opposite bound
+ * so it stays one condition, e.g. -created:>2025-09-01 is created:<=2025-09-01.
+ */
+function negateCondition(condition: Condition): IssueQueryFilter {
+	const [field, ...otherFields] = Object.keys(condition);
+	const operators = field === undefined ? {} : (condition[field] ?? {});
+	const [operator, ...otherOperators] = Object.keys(operators);
+	if (
+		field !== undefined &&
+		otherFields.length === 0 &&
+		otherOperators.length === 0 &&
+		(operator === 'time_is_after' || operator === 'time_is_before')
+	) {
+		const flipped =
+			operator === 'time_is_after' ? 'time_is_before' : 'time_is_after';
+		return { [field]: { [flipped]: operators[operator] } };
+	}
+	return { not: condition };
+}
+
+/**
+ * Combines the conditions of terms that must all match into one filter.
+ * Conditions that would overwrite an earlier one go into an `and` group.
+ */
+function combineTerms(filters: IssueQueryFilter[]): IssueQueryFilter {
+	const combined: Record<string, Record<string, unknown>> = {};
+	const rest: IssueQueryFilter[] = [];
+	for (const filter of filters) {
+		const entries = Object.entries(filter) as [
+			string,
+			Record<string, unknown>,
+		][];
+		const overlaps = entries.some(([field, operators]) =>
+			field === 'not'
+				? combined['not'] !== undefined
+				: Object.keys(operators).some(
+						(operator) => combined[field]?.[operator] !== undefined,
+					),
+		);
+		if (overlaps) {
+			rest.push(filter);
+			continue;
+		}
+		for (const [field, operators] of entries) {
+			combined[field] =
+				field === 'not' ? operators : { ...combined[field], ...operators };
+		}
+	}
+	return rest.length > 0 ? { ...combined, and: rest } : combined;
+}
+
+/**
+ * Parses a query string into an issue search filter, resolving references.
+ * @param currentUser - User reference that "me" stands for
+ * @throws QueryParseError pointing at the first term that can't be parsed or resolved
+ */
+export async function parseIssueQuery(
+	query: string,
+	resolver: Resolver,
+	currentUser?: string,
+): Promise<IssueQueryFilter> {
+	const terms = tokenize(query);
+	const isOr = (term: QueryTerm | undefined) => term?.token === 'OR';
+	const clauses: IssueQueryFilter[][] = [[]];
+	// Title condition of the current clause's bare words, which later ones join
+	let titleText: { string_contains: string } | undefined;
+	for (const [index, term] of terms.entries()) {
+		const fail: (reason: string) => never = (reason) => {
+			throw new QueryParseError(query, term.token, term.position, reason);
+		};
+		if (isOr(term)) {
+			if (index === 0 || index === terms.length - 1 || isOr(terms[index - 1])) {
+				fail('OR needs a term on each side');
+			}
+			clauses.push([]);
+			titleText = undefined;
+			continue;
+		}
+
+		const context: QueryContext = { resolver, currentUser, fail };
+		if (term.value === '') {
+			fail(term.key ? `${term.key}: needs a value` : 'empty term');
+		}
+		let condition: Condition;
+		if (term.key === undefined) {
+			const bareWord = !term.negated && !term.quoted;
+			if (bareWord && titleText) {
+				titleText.string_contains += ` ${term.value}`;
+				continue;
+			}
+			const text = { string_contains: term.value };
+			if (bareWord) {
+				titleText = text;
+			}
+			condition = { title: text };
+		} else {
+			const key = QUALIFIER_ALIASES[term.key] ?? term.key;
+			if (!isQualifier(key)) {
+				fail(
+					`unknown qualifier "${term.key}". Use one of: ${Object.keys(QUALIFIERS).join(', ')}, or quote text containing ":"`,
+				);
+			}
+			condition = await QUALIFIERS[key](term, context);
+		}
+		clauses.at(-1)?.push(term.negated ? negateCondition(condition) : condition);
+	}
+	if (terms.length === 0) {
+		throw new QueryParseError(query, '', 0, 'the query is empty');
+	}
+
+	const filters = clauses.map(combineTerms);
+	return filters.length === 1 && filters[0] ? filters[0] : { or: filters };
+}
@@ -0,0 +1,141 @@
+/**
+ * Minimal Markdown to HTML conversion for message bodies.
+ *
+ * Pylon expects message bodies as HTML, but models write Markdown. This covers
+ * what replies and notes actually use: paragraphs, line breaks, headings,
+ * bullet and numbered lists, block quotes, fenced code, inline code, bold,
+ * italics and links. Everything else is passed through as escaped text.
+ */
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+/**
+ * Converts inline Markdown (code, links, bold, italics) in already-split text.
+ */
+function renderInline(text: string): string {
+	// Code spans are rendered first and kept out of further formatting
+	const codeSpans: string[] = [];
+	const withoutCode = text.replace(/`([^`]+)`/g, (_, code: string) => {
+		codeSpans.push(`<code>${escapeHtml(code)}</code>`);
+		return `\uE000${codeSpans.length - 1}\uE000`;
+	});
+
+	// Link targets are swapped out too, so emphasis can't rewrite _ or * in URLs
+	const hrefs: string[] = [];
+	return escapeHtml(withoutCode)
+		.replace(
+			/\[([^\]]+)\]\((https?:\/\/[^\s)]+|mailto:[^\s)]+)\)/g,
+			(_, label: string, href: string) => {
+				hrefs.push(href);
+				return `<a href="\uE001${hrefs.length - 1}\uE001">${label}</a>`;
+			},
+		)
+		.replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a?: string, b?: string) => {
+			return `<strong>${a ?? b}</strong>`;
+		})
+		.replace(
+			/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)|(^|[^\w_])_(?!\s)(.+?)_(?!\w)/g,
+			(_, p1?: string, a?: string, p2?: string, b?: string) =>
+				`${p1 ?? p2}<em>${a ?? b}</em>`,
+		)
+		.replace(/\uE001(\d+)\uE001/g, (_, index: string) => {
+			return hrefs[Number(index)] ?? '';
+		})
+		.replace(/\uE000(\d+)\uE000/g, (_, index: string) => {
+			return codeSpans[Number(index)] ?? '';
+		});
+}
+
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*$/;
+
+/**
+ * Converts a Markdown document to HTML.
+ */
+export function markdownToHtml(markdown: string): string {
+	const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+	const blocks: string[] = [];
+	let i = 0;
+
+	while (i < lines.length) {
+		const line = lines[i] ?? '';
+
+		if (line.trim() === '') {
+			i++;
+			continue;
+		}
+
+		if (line.trimStart().startsWith('```')) {
+			const code: string[] = [];
+			i++;
+			while (i < lines.length && !lines[i]?.trimStart().startsWith('```')) {
+				code.push(lines[i] ?? '');
+				i++;
+			}
+			i++; // closing fence
+			blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+			continue;
+		}
+
+		const heading = HEADING.exec(line);
+		if (heading) {
+			const level = heading[1]?.length ?? 1;
+			blocks.push(`<h${level}>${renderInline(heading[2] ?? '')}</h${level}>`);
+			i++;
+			continue;
+		}
+
+		if (line.startsWith('>')) {
+			const quoted: string[] = [];
+			while (i < lines.length && lines[i]?.startsWith('>')) {
+				quoted.push((lines[i] ?? '').replace(/^>\s?/, ''));
+				i++;
+			}
+			blocks.push(
+				`<blockquote>${markdownToHtml(quoted.join('\n'))}</blockquote>`,
+			);
+			continue;
+		}
+
+		const listItem = LIST_ITEM.exec(line);
+		if (listItem) {
+			const ordered = /\d/.test(listItem[1] ?? '');
+			const items: string[] = [];
+			while (i < lines.length) {
+				const item = LIST_ITEM.exec(lines[i] ?? '');
+				if (!item) break;
+				items.push(`<li>${renderInline(item[2] ?? '')}</li>`);
+				i++;
+			}
+			const tag = ordered ? 'ol' : 'ul';
+			blocks.push(`<${tag}>${items.join('')}</${tag}>`);
+			continue;
+		}
+
+		// Paragraph: consecutive lines up to a blank line or another block
+		const paragraph: string[] = [];
+		while (i < lines.length) {
+			const current = lines[i] ?? '';
+			if (
+				current.trim() === '' ||
+				current.trimStart().startsWith('```') ||
+				current.startsWith('>') ||
+				HEADING.test(current) ||
+				LIST_ITEM.test(current)
+			) {
+				break;
+			}
+			paragraph.push(renderInline(current.trim()));
+			i++;
+		}
+		blocks.push(`<p>${paragraph.join('<br>')}</p>`);
+	}
+
+	return blocks.join('');
+}
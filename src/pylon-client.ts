@@ -1,27 +1,63 @@
-const PYLON_API_BASE = 'https://api.usepylon.com';
+import { editDistance } from './edit-distance.js';
+import { createPylonApiError, parseErrorBody } from './errors.js';
+import {
+	FILTER_FIELDS,
+	type FilterObjectType,
+	filterOperators,
+} from './filter-fields.js';
+import { RateLimiter, type RateLimiterOptions } from './rate-limiter.js';
+import {
+	computeBackoffDelay,
+	DEFAULT_MAX_RETRIES,
+	DEFAULT_MAX_RETRY_DELAY_MS,
+	DEFAULT_RETRY_BASE_DELAY_MS,
+	isIdempotentRequest,
+	isRetryableStatus,
+	parseRetryAfter,
+	sleep,
+} from './retry.js';
+
+export const DEFAULT_PYLON_API_BASE_URL = 'https://api.usepylon.com';
 
 // Pylon API allows max 30 days for time range queries
 const MAX_TIME_RANGE_DAYS = 30;
 const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
 /**
- * Validates that a time range does not exceed the maximum allowed duration.
- * @throws Error if the time range exceeds MAX_TIME_RANGE_DAYS
+ * Parses a time range, checking the format and that start is before end.
+ * @throws Error if either bound is invalid or the range is empty
  */
-function validateTimeRange(startTime: string, endTime: string): void {
+function parseTimeRange(
+	startTime: string,
+	endTime: string,
+): { start: Date; end: Date } {
 	const start = new Date(startTime);
 	const end = new Date(endTime);
 
 	if (Number.isNaN(start.getTime())) {
-		throw new Error(`Invalid start_time format: ${startTime}. Use RFC3339 format (e.g., 2024-01-01T00:00:00Z)`);
+		throw new Error(
+			`Invalid start_time format: ${startTime}. Use RFC3339 format (e.g., 2024-01-01T00:00:00Z)`,
+		);
 	}
 	if (Number.isNaN(end.getTime())) {
-		throw new Error(`Invalid end_time format: ${endTime}. Use RFC3339 format (e.g., 2024-01-31T00:00:00Z)`);
+		throw new Error(
+			`Invalid end_time format: ${endTime}. Use RFC3339 format (e.g., 2024-01-31T00:00:00Z)`,
+		);
 	}
 	if (start >= end) {
 		throw new Error('start_time must be before end_time');
 	}
 
+	return { start, end };
+}
+
+/**
+ * Validates that a time range does not exceed the maximum allowed duration.
+ * @throws Error if the time range exceeds MAX_TIME_RANGE_DAYS
+ */
+function validateTimeRange(startTime: string, endTime: string): void {
+	const { start, end } = parseTimeRange(startTime, endTime);
+
 	const diffDays = (end.getTime() - start.getTime()) / MS_PER_DAY;
 	if (diffDays > MAX_TIME_RANGE_DAYS) {
 		throw new Error(
@@ -30,6 +66,75 @@ function validateTimeRange(startTime: string, endTime: string): void {
 	}
 }
 
+/**
+ * Returns true if a valid time range is longer than a single Pylon query allows.
+ */
+export function exceedsMaxTimeRange(
+	startTime: string,
+	endTime: string,
+): boolean {
+	const start = new Date(startTime).getTime();
+	const end = new Date(endTime).getTime();
+	return end - start > MAX_TIME_RANGE_DAYS * MS_PER_DAY;
+}
+
+/**
+ * Splits a time range into consecutive windows of at most MAX_TIME_RANGE_DAYS,
+ * in chronological order.
+ * @throws Error if the range is invalid
+ */
+export function splitTimeRange(
+	startTime: string,
+	endTime: string,
+): { start: string; end: string }[] {
+	const { start, end } = parseTimeRange(startTime, endTime);
+	const windowMs = MAX_TIME_RANGE_DAYS * MS_PER_DAY;
+	const windows: { start: string; end: string }[] = [];
+
+	for (let from = start.getTime(); from < end.getTime(); from += windowMs) {
+		const to = Math.min(from + windowMs, end.getTime());
+		windows.push({
+			start: new Date(from).toISOString(),
+			end: new Date(to).toISOString(),
+		});
+	}
+	return windows;
+}
+
+/**
+ * Finds the filter fields whose time_range exceeds MAX_TIME_RANGE_DAYS.
+ */
+function findLongTimeRangeFields(filter: Record<string, unknown>): string[] {
+	const fields: string[] = [];
+	for (const [fieldName, fieldValue] of Object.entries(filter)) {
+		if (
+			typeof fieldValue !== 'object' ||
+			fieldValue === null ||
+			Array.isArray(fieldValue)
+		) {
+			continue;
+		}
+		const timeRange = (fieldValue as Record<string, unknown>)['time_range'] as
+			| { start?: string; end?: string }
+			| undefined;
+		if (
+			timeRange?.start &&
+			timeRange.end &&
+			exceedsMaxTimeRange(timeRange.start, timeRange.end)
+		) {
+			fields.push(fieldName);
+		}
+	}
+	return fields;
+}
+
+/**
+ * Returns true if a search filter has a time_range longer than a single Pylon query allows.
+ */
+export function hasLongTimeRange(filter: object): boolean {
+	return findLongTimeRangeFields(filter as Record<string, unknown>).length > 0;
+}
+
 /**
  * Validates time_range operators within a filter object.
  * @throws Error if any time_range exceeds MAX_TIME_RANGE_DAYS
@@ -61,54 +166,154 @@ function validateFilterTimeRanges(filter: Record<string, unknown>): void {
 	}
 }
 
+// Operators models commonly reach for, and the Pylon operators they usually mean.
+// The first one a field supports is suggested.
+const OPERATOR_ALIASES: Record<string, string[]> = {
+	gt: ['time_is_after'],
+	gte: ['time_is_after'],
+	after: ['time_is_after'],
+	since: ['time_is_after'],
+	from: ['time_is_after'],
+	lt: ['time_is_before'],
+	lte: ['time_is_before'],
+	before: ['time_is_before'],
+	until: ['time_is_before'],
+	to: ['time_is_before'],
+	between: ['time_range'],
+	range: ['time_range'],
+	eq: ['equals'],
+	is: ['equals'],
+	equal: ['equals'],
+	string_equals: ['equals'],
+	contains: ['string_contains'],
+	like: ['string_contains', 'contains'],
+	includes: ['string_contains', 'contains'],
+	not_contains: ['string_does_not_contain', 'does_not_contain'],
+	does_not_contain: ['string_does_not_contain'],
+	any: ['in'],
+	any_of: ['in'],
+	one_of: ['in'],
+	ne: ['not_in', 'does_not_contain'],
+	neq: ['not_in', 'does_not_contain'],
+	not: ['not_in', 'does_not_contain'],
+	not_equals: ['not_in', 'does_not_contain'],
+	nin: ['not_in'],
+	none_of: ['not_in'],
+	exists: ['is_set'],
+	not_null: ['is_set'],
+	is_not_null: ['is_set'],
+	is_null: ['is_unset'],
+	missing: ['is_unset'],
+	not_exists: ['is_unset'],
+};
+
+// Unknown fields within this many edits of a searchable field are suggested
+const MAX_FIELD_SUGGESTION_DISTANCE = 2;
+
+/**
+ * A filter operator that was dropped because Pylon doesn't support it for the
+ * field, or a whole field that isn't searchable.
+ */
+export interface DroppedFilterOperator {
+	/** Field path, e.g. "created_at" */
+	field: string;
+	/** Omitted when the whole field was dropped */
+	operator?: string;
+	/** Supported operator (or field) to use instead, when there's an obvious one */
+	suggestion?: string;
+	/** The field's operators, or the searchable fields when the field was dropped */
+	supported: string[];
+}
+
 /**
- * Valid operators for each field type in Pylon filters.
- * The LLM sometimes hallucinates operators (e.g., "gte" instead of "time_is_after"),
- * so we need to validate and only pass through recognized operators.
+ * Describes dropped operators, one per line, e.g. "- created_at.gte: use time_is_after".
  */
-const VALID_OPERATORS: Record<string, Set<string>> = {
-	// Time fields
-	created_at: new Set(['time_is_after', 'time_is_before', 'time_range']),
-	resolved_at: new Set(['time_is_after', 'time_is_before', 'time_range']),
-	latest_message_activity_at: new Set(['time_is_after', 'time_is_before', 'time_range']),
-
-	// String search fields (body_html is NOT supported by Pylon API)
-	title: new Set(['string_contains', 'string_does_not_contain']),
-
-	// ID fields
-	id: new Set(['equals', 'in', 'not_in']),
-	account_id: new Set(['equals', 'in', 'not_in', 'is_set', 'is_unset']),
-	requester_id: new Set(['equals', 'in', 'not_in', 'is_set', 'is_unset']),
-	assignee_id: new Set(['equals', 'in', 'not_in', 'is_set', 'is_unset']),
-	team_id: new Set(['equals', 'in', 'not_in', 'is_set', 'is_unset']),
-	ticket_form_id: new Set(['equals', 'in', 'not_in', 'is_set', 'is_unset']),
-	follower_user_id: new Set(['equals', 'in', 'not_in']),
-	follower_contact_id: new Set(['equals', 'in', 'not_in']),
-
-	// Enum/state fields
-	state: new Set(['equals', 'in', 'not_in']),
-	issue_type: new Set(['equals', 'in', 'not_in']),
-
-	// Tag fields
-	tags: new Set(['contains', 'does_not_contain', 'in', 'not_in']),
-
-	// Account-specific fields
-	domains: new Set(['contains', 'does_not_contain']),
-	name: new Set(['equals', 'string_contains']),
-	external_ids: new Set(['equals', 'in', 'not_in', 'is_set', 'is_unset']),
-
-	// Contact-specific fields
-	email: new Set(['equals', 'string_contains', 'in', 'not_in']),
-};
+export function describeDroppedOperators(
+	dropped: DroppedFilterOperator[],
+): string {
+	return dropped
+		.map(({ field, operator, suggestion, supported }) => {
+			if (operator === undefined) {
+				return suggestion
+					? `- ${field}: not a searchable field, use ${suggestion}`
+					: `- ${field}: not a searchable field; searchable fields are ${supported.join(', ')}`;
+			}
+			return suggestion
+				? `- ${field}.${operator}: use ${suggestion}`
+				: `- ${field}.${operator}: supported operators are ${supported.join(', ')}`;
+		})
+		.join('\n');
+}
 
 /**
- * Recursively cleans a filter object by:
+ * Thrown in strict filter validation mode when a search filter uses fields or
+ * operators Pylon doesn't support, instead of dropping them.
+ */
+export class UnsupportedFilterOperatorError extends Error {
+	readonly dropped: DroppedFilterOperator[];
+
+	constructor(dropped: DroppedFilterOperator[]) {
+		super(
+			`Filter uses fields or operators Pylon doesn't support:\n${describeDroppedOperators(dropped)}\nFix the filter and try again.`,
+		);
+		this.name = 'UnsupportedFilterOperatorError';
+		this.dropped = dropped;
+	}
+}
+
+function suggestOperator(
+	operator: string,
+	supported: readonly string[],
+): string | undefined {
+	const normalized = operator.toLowerCase();
+	if (supported.includes(normalized)) {
+		return normalized;
+	}
+	return OPERATOR_ALIASES[normalized]?.find((alias) =>
+		supported.includes(alias),
+	);
+}
+
+/**
+ * Suggests the searchable field an unknown one was probably meant to be,
+ * e.g. "prioirty" -> "priority" or "assignee" -> "assignee_id".
+ */
+function suggestField(
+	objectType: FilterObjectType,
+	field: string,
+): string | undefined {
+	const fields = Object.keys(FILTER_FIELDS[objectType]);
+	const normalized = field.toLowerCase();
+	const variant = fields.find((name) =>
+		[normalized, `${normalized}_id`, `${normalized}s`].includes(name),
+	);
+	if (variant) {
+		return variant;
+	}
+	return fields
+		.map((name) => ({ name, distance: editDistance(normalized, name) }))
+		.filter(
+			({ distance }) =>
+				distance <= MAX_FIELD_SUGGESTION_DISTANCE &&
+				distance < normalized.length,
+		)
+		.sort((a, b) => a.distance - b.distance)[0]?.name;
+}
+
+/**
+ * Cleans a filter object by:
  * 1. Removing empty objects and undefined/null values
- * 2. Only keeping valid operators for each field
- * This prevents sending invalid filters to the Pylon API.
+ * 2. Only keeping the fields FILTER_FIELDS lists, and their operators
+ * This prevents sending invalid filters to the Pylon API, since the LLM
+ * sometimes hallucinates fields and operators (e.g. "gte" instead of "time_is_after").
+ * @param dropped - Collects the fields and operators that were dropped
+ * @param path - Path of obj within the whole filter, for dropped operator reports
  */
 function cleanFilter(
+	objectType: FilterObjectType,
 	obj: Record<string, unknown>,
+	dropped: DroppedFilterOperator[] = [],
+	path = '',
 ): Record<string, unknown> | undefined {
 	const result: Record<string, unknown> = {};
 
@@ -117,34 +322,39 @@ function cleanFilter(
 			continue;
 		}
 
+		const validOperators = filterOperators(objectType, fieldName);
+		if (!validOperators) {
+			// Unknown field - dropped so it can't silently match everything, but reported
+			dropped.push({
+				field: `${path}${fieldName}`,
+				suggestion: suggestField(objectType, fieldName),
+				supported: Object.keys(FILTER_FIELDS[objectType]),
+			});
+			continue;
+		}
+
 		if (typeof fieldValue === 'object' && !Array.isArray(fieldValue)) {
-			const fieldObj = fieldValue as Record<string, unknown>;
-			const validOperators = VALID_OPERATORS[fieldName];
-
-			if (validOperators) {
-				// This is a known field - filter to only valid operators
-				const cleanedOperators: Record<string, unknown> = {};
-				for (const [op, opValue] of Object.entries(fieldObj)) {
-					if (validOperators.has(op) && opValue !== undefined && opValue !== null) {
-						// For time_range, recursively clean but keep structure
-						if (op === 'time_range' && typeof opValue === 'object') {
-							cleanedOperators[op] = opValue;
-						} else {
-							cleanedOperators[op] = opValue;
-						}
-					}
-					// Silently drop invalid operators to avoid API errors
-				}
-				if (Object.keys(cleanedOperators).length > 0) {
-					result[fieldName] = cleanedOperators;
+			// This is a known field - filter to only valid operators
+			const cleanedOperators: Record<string, unknown> = {};
+			for (const [op, opValue] of Object.entries(fieldValue)) {
+				if (opValue === undefined || opValue === null) {
+					continue;
 				}
-			} else {
-				// Unknown field - recursively clean but keep it
-				const cleaned = cleanFilter(fieldObj);
-				if (cleaned && Object.keys(cleaned).length > 0) {
-					result[fieldName] = cleaned;
+				if ((validOperators as readonly string[]).includes(op)) {
+					cleanedOperators[op] = opValue;
+				} else {
+					// Dropped to avoid API errors, but reported so callers can warn
+					dropped.push({
+						field: `${path}${fieldName}`,
+						operator: op,
+						suggestion: suggestOperator(op, validOperators),
+						supported: [...validOperators],
+					});
 				}
 			}
+			if (Object.keys(cleanedOperators).length > 0) {
+				result[fieldName] = cleanedOperators;
+			}
 		} else {
 			result[fieldName] = fieldValue;
 		}
@@ -153,8 +363,87 @@ function cleanFilter(
 	return Object.keys(result).length > 0 ? result : undefined;
 }
 
+/**
+ * Returns the fields and operators in a search filter, including its
+ * and/or/not groups, that would be dropped before sending, each with a
+ * suggested replacement where there's an obvious one.
+ */
+export function findDroppedFilterOperators(
+	objectType: FilterObjectType,
+	filter: object,
+	dropped: DroppedFilterOperator[] = [],
+	path = '',
+): DroppedFilterOperator[] {
+	const { and, or, not, ...conditions } = filter as Record<string, unknown>;
+	cleanFilter(objectType, conditions, dropped, path);
+	for (const [key, groups] of [
+		['and', and],
+		['or', or],
+	] as const) {
+		if (Array.isArray(groups)) {
+			groups.forEach((group, index) => {
+				if (typeof group === 'object' && group !== null) {
+					findDroppedFilterOperators(
+						objectType,
+						group,
+						dropped,
+						`${path}${key}[${index}].`,
+					);
+				}
+			});
+		}
+	}
+	if (typeof not === 'object' && not !== null) {
+		findDroppedFilterOperators(objectType, not, dropped, `${path}not.`);
+	}
+	return dropped;
+}
+
+/**
+ * Appends pagination (and any extra) query parameters to a path.
+ */
+function withPaginationParams(
+	path: string,
+	params?: PaginationParams,
+	extra: Record<string, string> = {},
+): string {
+	const searchParams = new URLSearchParams(extra);
+	if (params?.limit) searchParams.set('limit', params.limit.toString());
+	if (params?.cursor) searchParams.set('cursor', params.cursor);
+	const query = searchParams.toString();
+	return query ? `${path}?${query}` : path;
+}
+
 export interface PylonConfig {
 	apiToken: string;
+	/** API base URL, e.g. a staging or mock server (default https://api.usepylon.com) */
+	baseUrl?: string;
+	/** fetch implementation used for all requests (default global fetch) */
+	fetch?: typeof fetch;
+	/** Maximum number of retries for transient failures (default 3, 0 disables retries) */
+	maxRetries?: number;
+	/** Base delay for exponential backoff in milliseconds (default 500) */
+	retryBaseDelayMs?: number;
+	/** Upper bound for a single retry delay in milliseconds (default 10000) */
+	maxRetryDelayMs?: number;
+	/** Client-side rate limits shared by every request made through this client */
+	rateLimit?: Omit<RateLimiterOptions, 'onWait'>;
+	/**
+	 * How search filters with unsupported fields or operators are handled:
+	 * 'lenient' drops them and logs a warning, 'strict' rejects the search
+	 * with an UnsupportedFilterOperatorError (default 'lenient')
+	 */
+	filterValidation?: 'lenient' | 'strict';
+	/** Log diagnostics, such as rate limiter waits, to stderr (default false) */
+	debug?: boolean;
+}
+
+export interface RequestOptions {
+	/**
+	 * Whether the request may be retried on transient failures.
+	 * Defaults to true for idempotent methods and search POSTs, false otherwise.
+	 */
+	retry?: boolean;
 }
 
 export interface PaginationParams {
@@ -162,6 +451,34 @@ export interface PaginationParams {
 	cursor?: string;
 }
 
+export interface PaginateOptions {
+	/** Stop after this many items have been yielded */
+	maxItems?: number;
+	/** Page size to request from the API */
+	pageSize?: number;
+	/** Cursor to resume from */
+	cursor?: string;
+}
+
+export interface TimeWindowOptions {
+	/** Query windows concurrently instead of one after another */
+	parallel?: boolean;
+	/** Stop after collecting this many issues, walking windows oldest first */
+	maxItems?: number;
+	/** Page size to request within each window */
+	pageSize?: number;
+}
+
+export interface TimeWindowResult<T> {
+	data: T[];
+	/** Number of ≤30-day windows that were queried */
+	windows: number;
+	/** True if maxItems cut the results short */
+	truncated: boolean;
+	/** request_id of the response each item came from, by item id */
+	requestIds: Map<string, string>;
+}
+
 export interface PaginatedResponse<T> {
 	data: T[];
 	pagination: {
@@ -203,6 +520,7 @@ export interface Contact {
 	account?: { id: string; name: string };
 	custom_fields?: object;
 	portal_role?: string;
+	tags?: string[];
 }
 
 export interface Issue {
@@ -223,6 +541,72 @@ export interface Issue {
 	issue_type?: string;
 }
 
+export type CustomFieldObjectType = 'issue' | 'account' | 'contact';
+
+export interface CustomField {
+	id: string;
+	slug: string;
+	label: string;
+	/** text, number, decimal, boolean, date, datetime, user, url, select or multiselect */
+	type: string;
+	object_type: CustomFieldObjectType;
+	description?: string;
+	select_metadata?: {
+		options: { slug: string; label: string }[];
+	};
+}
+
+/** A custom field value as sent on create/update requests */
+export interface CustomFieldValue {
+	slug: string;
+	value?: string;
+	/** Used instead of value for multiselect fields */
+	values?: string[];
+}
+
+export interface TicketFormField {
+	/** Custom field slug, or a built-in field such as title or priority */
+	slug: string;
+	label: string;
+	type?: string;
+	required: boolean;
+}
+
+export interface TicketForm {
+	id: string;
+	name: string;
+	description?: string;
+	url?: string;
+	is_public?: boolean;
+	fields: TicketFormField[];
+}
+
+export interface Attachment {
+	id: string;
+	name: string;
+	url: string;
+	description?: string;
+}
+
+export interface KnowledgeBase {
+	id: string;
+	title: string;
+	slug?: string;
+	default_language?: string;
+}
+
+export interface Article {
+	id: string;
+	title: string;
+	slug?: string;
+	body_html?: string;
+	is_published: boolean;
+	url?: string;
+	author_user_id?: string;
+	collection_id?: string;
+	last_published_at?: string;
+}
+
 export interface Message {
 	id: string;
 	message_html: string;
@@ -266,37 +650,195 @@ export interface User {
 
 export class PylonClient {
 	private apiToken: string;
+	private baseUrl: string;
+	private fetchImpl: typeof fetch | undefined;
+	private maxRetries: number;
+	private retryBaseDelayMs: number;
+	private maxRetryDelayMs: number;
+	private limiter: RateLimiter;
+	private filterValidation: 'lenient' | 'strict';
 
 	constructor(config: PylonConfig) {
 		this.apiToken = config.apiToken;
+		this.baseUrl = (config.baseUrl ?? DEFAULT_PYLON_API_BASE_URL).replace(
+			/\/+$/,
+			'',
+		);
+		this.fetchImpl = config.fetch;
+		this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+		this.retryBaseDelayMs =
+			config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+		this.maxRetryDelayMs = config.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS;
+		this.filterValidation = config.filterValidation ?? 'lenient';
+		this.limiter = new RateLimiter({
+			...config.rateLimit,
+			onWait: config.debug
+				? ({ waitedMs, queueDepth }) => {
+						console.error(
+							`[pylon-mcp] rate limiter: waited ${waitedMs}ms, ${queueDepth} request(s) still queued`,
+						);
+					}
+				: undefined,
+		});
+	}
+
+	/**
+	 * Rejects a search filter, including its and/or/not groups, that uses
+	 * unsupported fields or operators when filter validation is strict. Search
+	 * tools call this before planning, which leaves those conditions out.
+	 * @throws UnsupportedFilterOperatorError in strict mode
+	 */
+	checkFilter(objectType: FilterObjectType, filter: object): void {
+		if (this.filterValidation !== 'strict') {
+			return;
+		}
+		const dropped = findDroppedFilterOperators(objectType, filter);
+		if (dropped.length > 0) {
+			throw new UnsupportedFilterOperatorError(dropped);
+		}
+	}
+
+	/**
+	 * Cleans a search filter, rejecting unsupported fields and operators in
+	 * strict mode and logging them in lenient mode.
+	 */
+	private prepareFilter(
+		objectType: FilterObjectType,
+		filter: Record<string, unknown>,
+	): Record<string, unknown> | undefined {
+		const dropped: DroppedFilterOperator[] = [];
+		const cleanedFilter = cleanFilter(objectType, filter, dropped);
+		if (dropped.length > 0) {
+			if (this.filterValidation === 'strict') {
+				throw new UnsupportedFilterOperatorError(dropped);
+			}
+			console.error(
+				`[pylon-mcp] dropped unsupported filter fields and operators:\n${describeDroppedOperators(dropped)}`,
+			);
+		}
+		return cleanedFilter;
 	}
 
 	private async request<T>(
 		method: string,
 		path: string,
-		body?: object,
+		body?: object | FormData,
+		options?: RequestOptions,
 	): Promise<T> {
-		const url = `${PYLON_API_BASE}${path}`;
+		const url = `${this.baseUrl}${path}`;
+		// fetch sets the multipart Content-Type (with its boundary) for FormData
+		const isForm = body instanceof FormData;
 		const headers: Record<string, string> = {
 			Authorization: `Bearer ${this.apiToken}`,
-			'Content-Type': 'application/json',
+			...(isForm ? {} : { 'Content-Type': 'application/json' }),
 			Accept: 'application/json',
 		};
+		// Resolve global fetch per request so it can be replaced after construction
+		const fetchImpl = this.fetchImpl ?? fetch;
+		const canRetry = options?.retry ?? isIdempotentRequest(method, path);
+		const maxAttempts = canRetry ? this.maxRetries + 1 : 1;
+
+		for (let attempt = 0; ; attempt++) {
+			const isLastAttempt = attempt + 1 >= maxAttempts;
+
+			let response: Response;
+			try {
+				response = await this.limiter.schedule(() =>
+					fetchImpl(url, {
+						method,
+						headers,
+						body: isForm ? body : body ? JSON.stringify(body) : undefined,
+					}),
+				);
+			} catch (error) {
+				// Network failures (DNS, connection reset) surface as thrown errors
+				if (isLastAttempt) {
+					throw error;
+				}
+				const delay = computeBackoffDelay(
+					attempt,
+					this.retryBaseDelayMs,
+					this.maxRetryDelayMs,
+				);
+				console.error(
+					`[pylon-mcp] ${method} ${path} failed (${(error as Error).message}), retrying in ${delay}ms (attempt ${attempt + 1}/${this.maxRetries})`,
+				);
+				await sleep(delay);
+				continue;
+			}
 
-		const response = await fetch(url, {
-			method,
-			headers,
-			body: body ? JSON.stringify(body) : undefined,
-		});
+			if (response.ok) {
+				return response.json() as Promise<T>;
+			}
 
-		if (!response.ok) {
 			const errorText = await response.text();
-			throw new Error(
-				`Pylon API error: ${response.status} ${response.statusText} - ${errorText}`,
+			const retryAfter = parseRetryAfter(
+				response.status,
+				response.headers.get('retry-after'),
 			);
+			if (!isLastAttempt && isRetryableStatus(response.status)) {
+				// Give up rather than wait longer than the configured maximum
+				if (retryAfter === undefined || retryAfter <= this.maxRetryDelayMs) {
+					const delay =
+						retryAfter ??
+						computeBackoffDelay(
+							attempt,
+							this.retryBaseDelayMs,
+							this.maxRetryDelayMs,
+						);
+					console.error(
+						`[pylon-mcp] ${method} ${path} returned ${response.status}, retrying in ${delay}ms (attempt ${attempt + 1}/${this.maxRetries})`,
+					);
+					await sleep(delay);
+					continue;
+				}
+			}
+
+			throw createPylonApiError({
+				status: response.status,
+				statusText: response.statusText,
+				method,
+				path,
+				body: parseErrorBody(errorText),
+				retryAfterMs: retryAfter,
+			});
 		}
+	}
+
+	/**
+	 * Iterates over every item of a paginated endpoint, following
+	 * pagination.cursor until has_next_page is false or maxItems is reached.
+	 *
+	 * @example
+	 * for await (const tag of client.paginate((page) => client.listTags(page))) { ... }
+	 */
+	async *paginate<T>(
+		fetchPage: (params: PaginationParams) => Promise<PaginatedResponse<T>>,
+		options: PaginateOptions = {},
+	): AsyncGenerator<T, void, undefined> {
+		const { maxItems, pageSize } = options;
+		const seenCursors = new Set<string>();
+		let cursor = options.cursor;
+		let yielded = 0;
+
+		while (maxItems === undefined || yielded < maxItems) {
+			const page = await fetchPage({ limit: pageSize, cursor });
+			for (const item of page.data ?? []) {
+				if (maxItems !== undefined && yielded >= maxItems) {
+					return;
+				}
+				yield item;
+				yielded++;
+			}
 
-		return response.json() as Promise<T>;
+			const next = page.pagination?.cursor;
+			// Guard against a cursor that never advances
+			if (!page.pagination?.has_next_page || !next || seenCursors.has(next)) {
+				return;
+			}
+			seenCursors.add(next);
+			cursor = next;
+		}
 	}
 
 	// Organization
@@ -308,13 +850,9 @@ export class PylonClient {
 	async listAccounts(
 		params?: PaginationParams,
 	): Promise<PaginatedResponse<Account>> {
-		const searchParams = new URLSearchParams();
-		if (params?.limit) searchParams.set('limit', params.limit.toString());
-		if (params?.cursor) searchParams.set('cursor', params.cursor);
-		const query = searchParams.toString();
 		return this.request<PaginatedResponse<Account>>(
 			'GET',
-			`/accounts${query ? `?${query}` : ''}`,
+			withPaginationParams(`/accounts`, params),
 		);
 	}
 
@@ -352,7 +890,10 @@ export class PylonClient {
 		filter: object,
 		params?: PaginationParams,
 	): Promise<PaginatedResponse<Account>> {
-		const cleanedFilter = cleanFilter(filter as Record<string, unknown>);
+		const cleanedFilter = this.prepareFilter(
+			'account',
+			filter as Record<string, unknown>,
+		);
 		return this.request<PaginatedResponse<Account>>(
 			'POST',
 			'/accounts/search',
@@ -368,13 +909,9 @@ export class PylonClient {
 	async listContacts(
 		params?: PaginationParams,
 	): Promise<PaginatedResponse<Contact>> {
-		const searchParams = new URLSearchParams();
-		if (params?.limit) searchParams.set('limit', params.limit.toString());
-		if (params?.cursor) searchParams.set('cursor', params.cursor);
-		const query = searchParams.toString();
 		return this.request<PaginatedResponse<Contact>>(
 			'GET',
-			`/contacts${query ? `?${query}` : ''}`,
+			withPaginationParams(`/contacts`, params),
 		);
 	}
 
@@ -383,14 +920,14 @@ export class PylonClient {
 	}
 
 	async createContact(
-		data: Partial<Contact> & { name: string },
+		data: Partial<Contact> & { name: string; account_id?: string },
 	): Promise<SingleResponse<Contact>> {
 		return this.request<SingleResponse<Contact>>('POST', '/contacts', data);
 	}
 
 	async updateContact(
 		id: string,
-		data: Partial<Contact>,
+		data: Partial<Contact> & { account_id?: string },
 	): Promise<SingleResponse<Contact>> {
 		return this.request<SingleResponse<Contact>>(
 			'PATCH',
@@ -412,7 +949,10 @@ export class PylonClient {
 		filter: object,
 		params?: PaginationParams,
 	): Promise<PaginatedResponse<Contact>> {
-		const cleanedFilter = cleanFilter(filter as Record<string, unknown>);
+		const cleanedFilter = this.prepareFilter(
+			'contact',
+			filter as Record<string, unknown>,
+		);
 		return this.request<PaginatedResponse<Contact>>(
 			'POST',
 			'/contacts/search',
@@ -431,15 +971,148 @@ export class PylonClient {
 		params?: PaginationParams,
 	): Promise<PaginatedResponse<Issue>> {
 		validateTimeRange(startTime, endTime);
-		const searchParams = new URLSearchParams();
-		searchParams.set('start_time', startTime);
-		searchParams.set('end_time', endTime);
-		if (params?.limit) searchParams.set('limit', params.limit.toString());
-		if (params?.cursor) searchParams.set('cursor', params.cursor);
 		return this.request<PaginatedResponse<Issue>>(
 			'GET',
-			`/issues?${searchParams.toString()}`,
+			withPaginationParams('/issues', params, {
+				start_time: startTime,
+				end_time: endTime,
+			}),
+		);
+	}
+
+	/**
+	 * Lists issues over a time range of any length by splitting it into
+	 * ≤30-day windows. Results are deduplicated and returned in chronological order.
+	 */
+	async listIssuesInWindows(
+		startTime: string,
+		endTime: string,
+		options: TimeWindowOptions = {},
+	): Promise<TimeWindowResult<Issue>> {
+		const windows = splitTimeRange(startTime, endTime);
+		return this.collectWindows(
+			windows,
+			(window, page) => this.listIssues(window.start, window.end, page),
+			'created_at',
+			options,
+		);
+	}
+
+	/**
+	 * Searches issues with a filter whose time_range may exceed 30 days.
+	 * The long time_range is split into ≤30-day windows, each searched separately,
+	 * and results are deduplicated and sorted chronologically by that field.
+	 */
+	async searchIssuesInWindows(
+		filter: object,
+		options: TimeWindowOptions = {},
+	): Promise<TimeWindowResult<Issue>> {
+		const filterRecord = filter as Record<string, unknown>;
+		const longFields = findLongTimeRangeFields(filterRecord);
+		if (longFields.length > 1) {
+			throw new Error(
+				`Only one time_range may exceed ${MAX_TIME_RANGE_DAYS} days, but ${longFields.join(' and ')} both do. Narrow one of them.`,
+			);
+		}
+
+		const field = longFields[0];
+		if (!field) {
+			return this.collectWindows(
+				[undefined],
+				(_window, page) => this.searchIssues(filterRecord, page),
+				'created_at',
+				options,
+			);
+		}
+
+		const fieldFilter = filterRecord[field] as Record<string, unknown>;
+		const timeRange = fieldFilter['time_range'] as {
+			start: string;
+			end: string;
+		};
+		return this.collectWindows(
+			splitTimeRange(timeRange.start, timeRange.end),
+			(window, page) =>
+				this.searchIssues(
+					{
+						...filterRecord,
+						[field]: { ...fieldFilter, time_range: window },
+					},
+					page,
+				),
+			field,
+			options,
+		);
+	}
+
+	/**
+	 * Paginates each window, then merges, dedupes and sorts the results by sortField.
+	 */
+	private async collectWindows<W, T extends { id: string }>(
+		windows: W[],
+		fetchPage: (
+			window: W,
+			params: PaginationParams,
+		) => Promise<PaginatedResponse<T>>,
+		sortField: string,
+		options: TimeWindowOptions,
+	): Promise<TimeWindowResult<T>> {
+		const { maxItems, pageSize } = options;
+		// Fetch one extra item per window so we can tell when results were cut short.
+		// A window cut at the cap keeps the items Pylon returned first, which
+		// needn't be its oldest
+		const windowCap = maxItems === undefined ? undefined : maxItems + 1;
+		const requestIds = new Map<string, string>();
+		const collect = async (window: W): Promise<T[]> => {
+			const items: T[] = [];
+			for await (const item of this.paginate(
+				async (page) => {
+					const result = await fetchPage(window, page);
+					for (const item of result.data ?? []) {
+						requestIds.set(item.id, result.request_id);
+					}
+					return result;
+				},
+				{ maxItems: windowCap, pageSize },
+			)) {
+				items.push(item);
+			}
+			return items;
+		};
+
+		const byId = new Map<string, T>();
+		const add = (items: T[]) => {
+			for (const item of items) {
+				byId.set(item.id, item);
+			}
+		};
+
+		if (options.parallel) {
+			for (const items of await Promise.all(windows.map(collect))) {
+				add(items);
+			}
+		} else {
+			// Windows are chronological, so we can stop once we have enough
+			for (const window of windows) {
+				add(await collect(window));
+				if (maxItems !== undefined && byId.size > maxItems) {
+					break;
+				}
+			}
+		}
+
+		const sortKey = (item: T) =>
+			String((item as unknown as Record<string, unknown>)[sortField] ?? '');
+		const sorted = [...byId.values()].sort((a, b) =>
+			sortKey(a).localeCompare(sortKey(b)),
 		);
+		const truncated = maxItems !== undefined && sorted.length > maxItems;
+		return {
+			data: truncated ? sorted.slice(0, maxItems) : sorted,
+			windows: windows.length,
+			truncated,
+			requestIds,
+		};
 	}
 
 	async getIssue(id: string): Promise<SingleResponse<Issue>> {
@@ -456,8 +1129,9 @@ export class PylonClient {
 		user_id?: string;
 		tags?: string[];
 		attachment_urls?: string[];
-		custom_fields?: object[];
+		custom_fields?: CustomFieldValue[];
 		priority?: 'urgent' | 'high' | 'medium' | 'low';
+		ticket_form_id?: string;
 		destination_metadata?: object;
 	}): Promise<SingleResponse<Issue>> {
 		return this.request<SingleResponse<Issue>>('POST', '/issues', data);
@@ -474,6 +1148,7 @@ export class PylonClient {
 			account_id?: string;
 			customer_portal_visible?: boolean;
 			priority?: 'urgent' | 'high' | 'medium' | 'low';
+			custom_fields?: CustomFieldValue[];
 		},
 	): Promise<SingleResponse<Issue>> {
 		return this.request<SingleResponse<Issue>>('PATCH', `/issues/${id}`, data);
@@ -492,11 +1167,17 @@ export class PylonClient {
 	): Promise<PaginatedResponse<Issue>> {
 		const filterRecord = filter as Record<string, unknown>;
 		validateFilterTimeRanges(filterRecord);
-		const cleanedFilter = cleanFilter(filterRecord);
+		const cleanedFilter = this.prepareFilter('issue', filterRecord);
 
 		// Debug: log filters to stderr (shows in Claude Desktop logs)
-		console.error('[pylon-mcp] searchIssues raw:', JSON.stringify(filterRecord));
-		console.error('[pylon-mcp] searchIssues cleaned:', JSON.stringify(cleanedFilter ?? {}));
+		console.error(
+			'[pylon-mcp] searchIssues raw:',
+			JSON.stringify(filterRecord),
+		);
+		console.error(
+			'[pylon-mcp] searchIssues cleaned:',
+			JSON.stringify(cleanedFilter ?? {}),
+		);
 
 		return this.request<PaginatedResponse<Issue>>('POST', '/issues/search', {
 			filter: cleanedFilter ?? {},
@@ -518,13 +1199,9 @@ export class PylonClient {
 		id: string,
 		params?: PaginationParams,
 	): Promise<PaginatedResponse<{ id: string; email: string }>> {
-		const searchParams = new URLSearchParams();
-		if (params?.limit) searchParams.set('limit', params.limit.toString());
-		if (params?.cursor) searchParams.set('cursor', params.cursor);
-		const query = searchParams.toString();
 		return this.request<PaginatedResponse<{ id: string; email: string }>>(
 			'GET',
-			`/issues/${id}/followers${query ? `?${query}` : ''}`,
+			withPaginationParams(`/issues/${id}/followers`, params),
 		);
 	}
 
@@ -544,6 +1221,54 @@ export class PylonClient {
 	}
 
 	// Messages
+	async listIssueMessages(
+		issueId: string,
+		params?: PaginationParams,
+	): Promise<PaginatedResponse<Message>> {
+		return this.request<PaginatedResponse<Message>>(
+			'GET',
+			withPaginationParams(`/issues/${issueId}/messages`, params),
+		);
+	}
+
+	/**
+	 * Sends a customer-visible reply on an issue (e.g. an email to the requester).
+	 * Not retried: a retry after a timeout could send the reply twice.
+	 */
+	async replyToIssue(
+		issueId: string,
+		data: {
+			body_html: string;
+			message_id: string;
+			attachment_urls?: string[];
+		},
+	): Promise<SingleResponse<Message>> {
+		return this.request<SingleResponse<Message>>(
+			'POST',
+			`/issues/${issueId}/reply`,
+			data,
+		);
+	}
+
+	/**
+	 * Posts an internal note on an issue, visible only to the team.
+	 */
+	async addInternalNote(
+		issueId: string,
+		data: {
+			body_html: string;
+			thread_id?: string;
+			message_id?: string;
+			attachment_urls?: string[];
+		},
+	): Promise<SingleResponse<Message>> {
+		return this.request<SingleResponse<Message>>(
+			'POST',
+			`/issues/${issueId}/note`,
+			data,
+		);
+	}
+
 	async redactMessage(
 		issueId: string,
 		messageId: string,
@@ -554,15 +1279,34 @@ export class PylonClient {
 		);
 	}
 
+	// Attachments
+	async uploadAttachment(file: {
+		name: string;
+		contentType: string;
+		data: Uint8Array<ArrayBuffer>;
+		description?: string;
+	}): Promise<SingleResponse<Attachment>> {
+		const form = new FormData();
+		form.append(
+			'file',
+			new Blob([file.data], { type: file.contentType }),
+			file.name,
+		);
+		if (file.description) {
+			form.append('description', file.description);
+		}
+		return this.request<SingleResponse<Attachment>>(
+			'POST',
+			'/attachments',
+			form,
+		);
+	}
+
 	// Tags
 	async listTags(params?: PaginationParams): Promise<PaginatedResponse<Tag>> {
-		const searchParams = new URLSearchParams();
-		if (params?.limit) searchParams.set('limit', params.limit.toString());
-		if (params?.cursor) searchParams.set('cursor', params.cursor);
-		const query = searchParams.toString();
 		return this.request<PaginatedResponse<Tag>>(
 			'GET',
-			`/tags${query ? `?${query}` : ''}`,
+			withPaginationParams(`/tags`, params),
 		);
 	}
 
@@ -594,13 +1338,9 @@ export class PylonClient {
 
 	// Teams
 	async listTeams(params?: PaginationParams): Promise<PaginatedResponse<Team>> {
-		const searchParams = new URLSearchParams();
-		if (params?.limit) searchParams.set('limit', params.limit.toString());
-		if (params?.cursor) searchParams.set('cursor', params.cursor);
-		const query = searchParams.toString();
 		return this.request<PaginatedResponse<Team>>(
 			'GET',
-			`/teams${query ? `?${query}` : ''}`,
+			withPaginationParams(`/teams`, params),
 		);
 	}
 
@@ -621,4 +1361,119 @@ export class PylonClient {
 	): Promise<SingleResponse<Team>> {
 		return this.request<SingleResponse<Team>>('PATCH', `/teams/${id}`, data);
 	}
+
+	async deleteTeam(id: string): Promise<SingleResponse<{ success: boolean }>> {
+		return this.request<SingleResponse<{ success: boolean }>>(
+			'DELETE',
+			`/teams/${id}`,
+		);
+	}
+
+	// Custom fields
+	async listCustomFields(
+		objectType: CustomFieldObjectType,
+		params?: PaginationParams,
+	): Promise<PaginatedResponse<CustomField>> {
+		return this.request<PaginatedResponse<CustomField>>(
+			'GET',
+			withPaginationParams('/custom-fields', params, {
+				object_type: objectType,
+			}),
+		);
+	}
+
+	// Knowledge bases
+	async listKnowledgeBases(
+		params?: PaginationParams,
+	): Promise<PaginatedResponse<KnowledgeBase>> {
+		return this.request<PaginatedResponse<KnowledgeBase>>(
+			'GET',
+			withPaginationParams('/knowledge-bases', params),
+		);
+	}
+
+	async listArticles(
+		knowledgeBaseId: string,
+		params?: PaginationParams,
+	): Promise<PaginatedResponse<Article>> {
+		return this.request<PaginatedResponse<Article>>(
+			'GET',
+			withPaginationParams(
+				`/knowledge-bases/${knowledgeBaseId}/articles`,
+				params,
+			),
+		);
+	}
+
+	async getArticle(
+		knowledgeBaseId: string,
+		articleId: string,
+	): Promise<SingleResponse<Article>> {
+		return this.request<SingleResponse<Article>>(
+			'GET',
+			`/knowledge-bases/${knowledgeBaseId}/articles/${articleId}`,
+		);
+	}
+
+	async createArticle(
+		knowledgeBaseId: string,
+		data: {
+			title: string;
+			body_html: string;
+			author_user_id: string;
+			slug?: string;
+			collection_id?: string;
+			is_published?: boolean;
+		},
+	): Promise<SingleResponse<Article>> {
+		return this.request<SingleResponse<Article>>(
+			'POST',
+			`/knowledge-bases/${knowledgeBaseId}/articles`,
+			data,
+		);
+	}
+
+	// Ticket forms
+	async listTicketForms(
+		params?: PaginationParams,
+	): Promise<PaginatedResponse<TicketForm>> {
+		return this.request<PaginatedResponse<TicketForm>>(
+			'GET',
+			withPaginationParams('/ticket-forms', params),
+		);
+	}
+
+	async getTicketForm(id: string): Promise<SingleResponse<TicketForm>> {
+		return this.request<SingleResponse<TicketForm>>(
+			'GET',
+			`/ticket-forms/${id}`,
+		);
+	}
+
+	// Users
+	async listUsers(params?: PaginationParams): Promise<PaginatedResponse<User>> {
+		return this.request<PaginatedResponse<User>>(
+			'GET',
+			withPaginationParams('/users', params),
+		);
+	}
+
+	async getUser(id: string): Promise<SingleResponse<User>> {
+		return this.request<SingleResponse<User>>('GET', `/users/${id}`);
+	}
+
+	async searchUsers(
+		filter: object,
+		params?: PaginationParams,
+	): Promise<PaginatedResponse<User>> {
+		const cleanedFilter = this.prepareFilter(
+			'user',
+			filter as Record<string, unknown>,
+		);
+		return this.request<PaginatedResponse<User>>('POST', '/users/search', {
+			filter: cleanedFilter ?? {},
+			limit: params?.limit,
+			cursor: params?.cursor,
+		});
+	}
 }
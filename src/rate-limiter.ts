@@ -0,0 +1,129 @@
+/**
+ * Client-side rate limiting for Pylon API requests.
+ *
+ * Combines a token bucket (sustained requests per second plus a burst allowance)
+ * with a cap on concurrent in-flight requests. Requests over the limit are queued
+ * in FIFO order and wait for capacity instead of failing.
+ */
+
+export const DEFAULT_REQUESTS_PER_SECOND = 10;
+export const DEFAULT_BURST = 10;
+export const DEFAULT_MAX_CONCURRENCY = 5;
+
+export interface RateLimiterOptions {
+	/** Sustained request rate. 0 or Infinity disables the token bucket. */
+	requestsPerSecond?: number;
+	/** Maximum number of requests that can be sent back-to-back (bucket size) */
+	burst?: number;
+	/** Maximum number of in-flight requests. 0 or Infinity disables the cap. */
+	maxConcurrency?: number;
+	/** Called when a request had to wait for capacity */
+	onWait?: (info: { waitedMs: number; queueDepth: number }) => void;
+}
+
+export class RateLimiter {
+	private readonly refillPerMs: number;
+	private readonly capacity: number;
+	private readonly maxConcurrency: number;
+	private readonly onWait: RateLimiterOptions['onWait'];
+	private readonly queue: (() => void)[] = [];
+	private tokens: number;
+	private lastRefill: number;
+	private active = 0;
+	private timer: ReturnType<typeof setTimeout> | undefined;
+
+	constructor(options: RateLimiterOptions = {}) {
+		const requestsPerSecond =
+			options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND;
+		const maxConcurrency = options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY;
+		this.refillPerMs =
+			requestsPerSecond > 0
+				? requestsPerSecond / 1000
+				: Number.POSITIVE_INFINITY;
+		this.capacity = Math.max(1, options.burst ?? DEFAULT_BURST);
+		this.maxConcurrency =
+			maxConcurrency > 0 ? maxConcurrency : Number.POSITIVE_INFINITY;
+		this.onWait = options.onWait;
+		this.tokens = this.capacity;
+		this.lastRefill = Date.now();
+	}
+
+	/** Number of requests waiting for capacity */
+	get queueDepth(): number {
+		return this.queue.length;
+	}
+
+	/**
+	 * Runs a task once a token and a concurrency slot are available.
+	 */
+	async schedule<T>(task: () => Promise<T>): Promise<T> {
+		const queuedAt = Date.now();
+		const waited = await this.acquire();
+		if (waited) {
+			this.onWait?.({
+				waitedMs: Date.now() - queuedAt,
+				queueDepth: this.queue.length,
+			});
+		}
+
+		try {
+			return await task();
+		} finally {
+			this.active--;
+			this.drain();
+		}
+	}
+
+	/**
+	 * Resolves once capacity is available, with true if the caller had to queue.
+	 */
+	private acquire(): Promise<boolean> {
+		return new Promise((resolve) => {
+			let queued = false;
+			this.queue.push(() => resolve(queued));
+			this.drain();
+			queued = true;
+		});
+	}
+
+	private refill(): void {
+		const now = Date.now();
+		const elapsed = now - this.lastRefill;
+		this.lastRefill = now;
+		if (this.refillPerMs === Number.POSITIVE_INFINITY) {
+			this.tokens = this.capacity;
+			return;
+		}
+		this.tokens = Math.min(
+			this.capacity,
+			this.tokens + elapsed * this.refillPerMs,
+		);
+	}
+
+	private drain(): void {
+		this.refill();
+		while (
+			this.queue.length > 0 &&
+			this.active < this.maxConcurrency &&
+			this.tokens >= 1
+		) {
+			this.tokens -= 1;
+			this.active++;
+			this.queue.shift()?.();
+		}
+
+		// Out of tokens: wake up when the next one is available.
+		// Out of concurrency slots: the next finished task calls drain().
+		if (
+			this.queue.length > 0 &&
+			this.active < this.maxConcurrency &&
+			this.timer === undefined
+		) {
+			const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs);
+			this.timer = setTimeout(() => {
+				this.timer = undefined;
+				this.drain();
+			}, waitMs);
+		}
+	}
+}
@@ -0,0 +1,492 @@
+/**
+ * Resolves human-friendly references to Pylon IDs for mutating tools.
+ *
+ * Accepted references:
+ * - users: ID, email, or name (full or unique partial)
+ * - contacts: ID or email
+ * - teams: ID or name
+ * - accounts: ID, exact name, or domain
+ * - issues: ID, number ("1234" or "#1234"), or a Pylon issue URL
+ * - ticket forms: ID or name
+ *
+ * It also caches custom field and tag definitions, used to validate values
+ * before they are written.
+ *
+ * Lookups are cached for a few minutes so that resolving several references in
+ * one tool call (or across calls) doesn't re-fetch the user and team directories.
+ */
+
+import { PylonNotFoundError, PylonValidationError } from './errors.js';
+import type {
+	CustomField,
+	CustomFieldObjectType,
+	PylonClient,
+	SingleResponse,
+	Tag,
+	User,
+} from './pylon-client.js';
+
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+// Upper bound on users read into the directory cache
+const MAX_DIRECTORY_USERS = 2000;
+const DIRECTORY_PAGE_SIZE = 100;
+// Candidates listed in an ambiguity error
+const MAX_LISTED_CANDIDATES = 10;
+
+export type ReferenceKind =
+	| 'user'
+	| 'contact'
+	| 'team'
+	| 'account'
+	| 'issue'
+	| 'ticket form';
+
+export interface ReferenceCandidate {
+	id: string;
+	/** Human-readable label, e.g. "Dana Scully <dana@example.com>" */
+	label: string;
+}
+
+/**
+ * Thrown when a reference matches more than one record.
+ */
+export class AmbiguousReferenceError extends Error {
+	readonly kind: ReferenceKind;
+	readonly reference: string;
+	readonly candidates: ReferenceCandidate[];
+
+	constructor(
+		kind: ReferenceKind,
+		reference: string,
+		candidates: ReferenceCandidate[],
+	) {
+		const listed = candidates
+			.slice(0, MAX_LISTED_CANDIDATES)
+			.map((candidate) => `${candidate.label} (${candidate.id})`)
+			.join(', ');
+		const more =
+			candidates.length > MAX_LISTED_CANDIDATES
+				? ` and ${candidates.length - MAX_LISTED_CANDIDATES} more`
+				: '';
+		super(
+			`"${reference}" matches ${candidates.length} ${kind}s: ${listed}${more}. Pass one of these IDs instead.`,
+		);
+		this.name = 'AmbiguousReferenceError';
+		this.kind = kind;
+		this.reference = reference;
+		this.candidates = candidates;
+	}
+}
+
+/**
+ * Thrown when a reference matches nothing.
+ */
+export class UnresolvedReferenceError extends Error {
+	readonly kind: ReferenceKind;
+	readonly reference: string;
+
+	constructor(kind: ReferenceKind, reference: string, hint: string) {
+		super(`No ${kind} matches "${reference}". ${hint}`);
+		this.name = 'UnresolvedReferenceError';
+		this.kind = kind;
+		this.reference = reference;
+	}
+}
+
+/**
+ * Parses an issue reference that starts like a URL.
+ * @throws UnresolvedReferenceError if it isn't a valid URL
+ */
+function parseIssueUrl(reference: string): URL {
+	try {
+		return new URL(reference.trim());
+	} catch {
+		throw new UnresolvedReferenceError(
+			'issue',
+			reference,
+			'It looks like a URL but is malformed. Pass the issue number, ID or a Pylon issue URL.',
+		);
+	}
+}
+
+/**
+ * Extracts an issue number from "1234", "#1234" or a Pylon URL with ?issueNumber=1234.
+ * @throws UnresolvedReferenceError for a malformed URL
+ */
+export function parseIssueNumber(reference: string): number | undefined {
+	const trimmed = reference.trim();
+	const plain = /^#?(\d+)$/.exec(trimmed);
+	if (plain) {
+		return Number(plain[1]);
+	}
+	if (/^https?:\/\//.test(trimmed)) {
+		const param = parseIssueUrl(trimmed).searchParams.get('issueNumber');
+		if (param && /^\d+$/.test(param)) {
+			return Number(param);
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Extracts an issue ID from a Pylon URL path like /issues/<id>. The ID stays
+ * percent-encoded as it is in the URL.
+ */
+function parseIssueUrlId(reference: string): string | undefined {
+	if (!/^https?:\/\//.test(reference.trim())) {
+		return undefined;
+	}
+	const segments = parseIssueUrl(reference).pathname.split('/');
+	const index = segments.indexOf('issues');
+	const id = index === -1 ? undefined : segments[index + 1];
+	return id && id !== 'views' ? id : undefined;
+}
+
+function isEmail(reference: string): boolean {
+	return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(reference);
+}
+
+// IDs, external IDs and slugs; names with spaces aren't looked up as IDs
+function isIdLike(reference: string): boolean {
+	return /^[\w.:-]+$/.test(reference) && !isEmail(reference);
+}
+
+function isDomain(reference: string): boolean {
+	return /^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(reference);
+}
+
+/**
+ * Picks the single match, or throws an unresolved or ambiguous reference error.
+ */
+function single<T extends { id: string }>(
+	kind: ReferenceKind,
+	reference: string,
+	matches: T[],
+	label: (item: T) => string,
+	hint: string,
+): string {
+	const [first] = matches;
+	if (!first) {
+		throw new UnresolvedReferenceError(kind, reference, hint);
+	}
+	if (matches.length > 1) {
+		throw new AmbiguousReferenceError(
+			kind,
+			reference,
+			matches.map((item) => ({ id: item.id, label: label(item) })),
+		);
+	}
+	return first.id;
+}
+
+/**
+ * Resolves a reference that may be omitted, leaving undefined as-is.
+ */
+export async function resolveOptional(
+	reference: string | undefined,
+	resolve: (reference: string) => Promise<string>,
+): Promise<string | undefined> {
+	return reference === undefined ? undefined : resolve(reference);
+}
+
+export class Resolver {
+	private readonly cache = new Map<
+		string,
+		{ value: Promise<unknown>; expiresAt: number }
+	>();
+
+	constructor(
+		private readonly client: PylonClient,
+		private readonly ttlMs = DEFAULT_CACHE_TTL_MS,
+	) {}
+
+	/**
+	 * Resolves a user ID, email, or name to a user ID.
+	 */
+	async resolveUser(reference: string): Promise<string> {
+		const needle = reference.trim().toLowerCase();
+		const users = await this.users();
+
+		const exact = users.filter(
+			(user) =>
+				user.id === reference.trim() ||
+				user.email.toLowerCase() === needle ||
+				(user.name ?? '').toLowerCase() === needle,
+		);
+		const matches =
+			exact.length > 0 || isEmail(needle)
+				? exact
+				: users.filter((user) =>
+						(user.name ?? '').toLowerCase().includes(needle),
+					);
+		// The directory stops at MAX_DIRECTORY_USERS, so look unmatched IDs up directly
+		if (matches.length === 0) {
+			const id = await this.findById(reference, (id) =>
+				this.client.getUser(id),
+			);
+			if (id) {
+				return id;
+			}
+		}
+		return single(
+			'user',
+			reference,
+			matches,
+			(user) => `${user.name ?? user.email} <${user.email}>`,
+			'Use pylon_find_user to look the user up.',
+		);
+	}
+
+	/**
+	 * Resolves a team ID or name to a team ID.
+	 */
+	async resolveTeam(reference: string): Promise<string> {
+		const needle = reference.trim().toLowerCase();
+		const teams = await this.cached('teams', async () => {
+			const all: { id: string; name: string }[] = [];
+			for await (const team of this.client.paginate(
+				(page) => this.client.listTeams(page),
+				{ pageSize: DIRECTORY_PAGE_SIZE },
+			)) {
+				all.push(team);
+			}
+			return all;
+		});
+
+		const matches = teams.filter(
+			(team) =>
+				team.id === reference.trim() || team.name.toLowerCase() === needle,
+		);
+		// A team created since the directory was cached is found by ID
+		if (matches.length === 0) {
+			const id = await this.findById(reference, (id) =>
+				this.client.getTeam(id),
+			);
+			if (id) {
+				return id;
+			}
+		}
+		return single(
+			'team',
+			reference,
+			matches,
+			(team) => team.name,
+			'Use pylon_list_teams to see team names.',
+		);
+	}
+
+	/**
+	 * Resolves a contact ID or email to a contact ID.
+	 */
+	async resolveContact(reference: string): Promise<string> {
+		const trimmed = reference.trim();
+		if (!isEmail(trimmed)) {
+			return trimmed;
+		}
+		const contacts = await this.cached(
+			`contact:${trimmed.toLowerCase()}`,
+			async () => {
+				const result = await this.client.searchContacts({
+					email: { equals: trimmed.toLowerCase() },
+				});
+				return result.data;
+			},
+		);
+		return single(
+			'contact',
+			reference,
+			contacts,
+			(contact) => `${contact.name} <${contact.email}>`,
+			'Use pylon_search_contacts to find the contact.',
+		);
+	}
+
+	/**
+	 * Resolves an account ID, exact name, or domain to an account ID.
+	 */
+	async resolveAccount(reference: string): Promise<string> {
+		const trimmed = reference.trim();
+		return this.cached(`account:${trimmed.toLowerCase()}`, async () => {
+			const byName = { name: { equals: trimmed } };
+			const filters = isDomain(trimmed)
+				? [{ domains: { contains: trimmed.toLowerCase() } }, byName]
+				: [byName];
+			for (const filter of filters) {
+				const result = await this.client.searchAccounts(filter);
+				if (result.data.length > 0) {
+					return single(
+						'account',
+						reference,
+						result.data,
+						(account) => account.name,
+						'',
+					);
+				}
+			}
+			// Not a name or domain: it's an ID (or external ID) if Pylon knows it
+			const id = await this.findById(reference, (id) =>
+				this.client.getAccount(id),
+			);
+			if (!id) {
+				throw new UnresolvedReferenceError(
+					'account',
+					reference,
+					'Use pylon_search_accounts to find the account.',
+				);
+			}
+			return id;
+		});
+	}
+
+	/**
+	 * Resolves an issue ID, number, or Pylon issue URL to an issue ID.
+	 */
+	async resolveIssue(reference: string): Promise<string> {
+		const number = parseIssueNumber(reference);
+		if (number === undefined) {
+			// The ID goes into request paths, so anything else is encoded
+			return parseIssueUrlId(reference) ?? encodeURIComponent(reference.trim());
+		}
+		return this.cached(`issue:${number}`, async () => {
+			try {
+				return (await this.client.getIssue(String(number))).data.id;
+			} catch (error) {
+				if (error instanceof PylonNotFoundError) {
+					throw new UnresolvedReferenceError(
+						'issue',
+						reference,
+						'Check the issue number.',
+					);
+				}
+				throw error;
+			}
+		});
+	}
+
+	/**
+	 * Resolves a ticket form ID or name to a ticket form ID.
+	 */
+	async resolveTicketForm(reference: string): Promise<string> {
+		const needle = reference.trim().toLowerCase();
+		const forms = await this.cached('ticket-forms', async () => {
+			const all: { id: string; name: string }[] = [];
+			for await (const form of this.client.paginate(
+				(page) => this.client.listTicketForms(page),
+				{ pageSize: DIRECTORY_PAGE_SIZE },
+			)) {
+				all.push(form);
+			}
+			return all;
+		});
+
+		return single(
+			'ticket form',
+			reference,
+			forms.filter(
+				(form) =>
+					form.id === reference.trim() || form.name.toLowerCase() === needle,
+			),
+			(form) => form.name,
+			'Use pylon_list_ticket_forms to see form names.',
+		);
+	}
+
+	/**
+	 * Returns the org's custom field definitions for an object type.
+	 */
+	async customFieldDefinitions(
+		objectType: CustomFieldObjectType,
+	): Promise<CustomField[]> {
+		return this.cached(`custom-fields:${objectType}`, async () => {
+			const all: CustomField[] = [];
+			for await (const field of this.client.paginate(
+				(page) => this.client.listCustomFields(objectType, page),
+				{ pageSize: DIRECTORY_PAGE_SIZE },
+			)) {
+				all.push(field);
+			}
+			return all;
+		});
+	}
+
+	/**
+	 * Returns the user directory, up to MAX_DIRECTORY_USERS users.
+	 */
+	async users(): Promise<User[]> {
+		return this.cached('users', async () => {
+			const all: User[] = [];
+			for await (const user of this.client.paginate(
+				(page) => this.client.listUsers(page),
+				{ maxItems: MAX_DIRECTORY_USERS, pageSize: DIRECTORY_PAGE_SIZE },
+			)) {
+				all.push(user);
+			}
+			return all;
+		});
+	}
+
+	/**
+	 * Returns the org's tags for every object type.
+	 */
+	async tagDefinitions(): Promise<Tag[]> {
+		return this.cached('tags', async () => {
+			const all: Tag[] = [];
+			for await (const tag of this.client.paginate(
+				(page) => this.client.listTags(page),
+				{ pageSize: DIRECTORY_PAGE_SIZE },
+			)) {
+				all.push(tag);
+			}
+			return all;
+		});
+	}
+
+	/** Drops all cached lookups, e.g. after creating a team or user */
+	clear(): void {
+		this.cache.clear();
+	}
+
+	/**
+	 * Fetches an ID-shaped reference directly, for records the cached
+	 * directories don't hold. Returns undefined if Pylon doesn't know it.
+	 */
+	private async findById(
+		reference: string,
+		get: (id: string) => Promise<SingleResponse<{ id: string }>>,
+	): Promise<string | undefined> {
+		const trimmed = reference.trim();
+		if (!isIdLike(trimmed)) {
+			return undefined;
+		}
+		try {
+			return (await get(encodeURIComponent(trimmed))).data.id;
+		} catch (error) {
+			if (
+				error instanceof PylonNotFoundError ||
+				error instanceof PylonValidationError
+			) {
+				return undefined;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Returns a cached lookup, or runs and caches it. Failed lookups are not cached.
+	 */
+	private cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+		const now = Date.now();
+		const entry = this.cache.get(key);
+		if (entry && entry.expiresAt > now) {
+			return entry.value as Promise<T>;
+		}
+		const value = load();
+		this.cache.set(key, { value, expiresAt: now + this.ttlMs });
+		value.catch(() => {
+			if (this.cache.get(key)?.value === value) {
+				this.cache.delete(key);
+			}
+		});
+		return value;
+	}
+}
@@ -0,0 +1,82 @@
+/**
+ * Retry helpers for transient Pylon API failures.
+ *
+ * Only idempotent requests are retried by default. Creating resources
+ * (POST /issues, /accounts, /contacts, ...) is never retried silently, since
+ * a request that timed out may still have been applied on Pylon's side.
+ */
+
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+export const DEFAULT_MAX_RETRY_DELAY_MS = 10_000;
+
+// Status codes worth retrying: timeouts, rate limits and server errors
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+
+// Status codes where Pylon may tell us how long to wait
+const RETRY_AFTER_STATUS_CODES = new Set([429, 503]);
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'PATCH', 'DELETE']);
+
+/**
+ * Returns true if a request can be safely repeated.
+ * Search endpoints use POST but only read data, so they are treated as idempotent.
+ */
+export function isIdempotentRequest(method: string, path: string): boolean {
+	const upperMethod = method.toUpperCase();
+	if (IDEMPOTENT_METHODS.has(upperMethod)) {
+		return true;
+	}
+	const pathname = path.split('?')[0] ?? '';
+	return upperMethod === 'POST' && pathname.endsWith('/search');
+}
+
+/**
+ * Returns true if a response status indicates a transient failure.
+ */
+export function isRetryableStatus(status: number): boolean {
+	return RETRYABLE_STATUS_CODES.has(status);
+}
+
+/**
+ * Parses a Retry-After header into milliseconds.
+ * Supports both delta-seconds and HTTP-date formats.
+ * Returns undefined if the header is missing, unparseable or not applicable to the status.
+ */
+export function parseRetryAfter(
+	status: number,
+	header: string | null,
+	now: number = Date.now(),
+): number | undefined {
+	if (!header || !RETRY_AFTER_STATUS_CODES.has(status)) {
+		return undefined;
+	}
+
+	const trimmed = header.trim();
+	if (/^\d+(\.\d+)?$/.test(trimmed)) {
+		return Math.ceil(Number(trimmed) * 1000);
+	}
+
+	const date = Date.parse(trimmed);
+	if (Number.isNaN(date)) {
+		return undefined;
+	}
+	return Math.max(0, date - now);
+}
+
+/**
+ * Computes the delay before the next attempt using exponential backoff with full jitter.
+ * @param attempt Zero-based retry attempt number
+ */
+export function computeBackoffDelay(
+	attempt: number,
+	baseDelayMs: number,
+	maxDelayMs: number,
+): number {
+	const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+	return Math.floor(Math.random() * exponential);
+}
+
+export function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -33,6 +33,7 @@ export const IssueMinimalSchema = z.object({
 	number: z.number().optional(),
 	title: z.string(),
 	state: z.string(),
+	priority: z.string().nullable().optional(),
 	link: z.string().optional(),
 	created_at: z.string().optional(),
 	assignee_id: z.string().nullable().optional(),
@@ -146,11 +147,211 @@ export const TeamStandardSchema = TeamMinimalSchema.extend({
 export type TeamMinimal = z.infer<typeof TeamMinimalSchema>;
 export type TeamStandard = z.infer<typeof TeamStandardSchema>;
 
+// ============================================================================
+// User Schema
+// ============================================================================
+
+export const UserMinimalSchema = z.object({
+	id: z.string(),
+	name: z.string().nullable().optional(),
+	email: z.string(),
+});
+
+export type UserMinimal = z.infer<typeof UserMinimalSchema>;
+
+// ============================================================================
+// Message Schema
+// ============================================================================
+
+/**
+ * Issue message reduced to what a transcript needs.
+ * author_type is "customer" for contacts and "team" for Pylon users.
+ */
+export const MessageMinimalSchema = z.object({
+	id: z.string(),
+	timestamp: z.string(),
+	author_name: z.string(),
+	author_type: z.enum(['customer', 'team', 'unknown']),
+	is_private: z.boolean(),
+	source: z.string().optional(),
+	text: z.string(),
+});
+
+export type MessageMinimal = z.infer<typeof MessageMinimalSchema>;
+
+// ============================================================================
+// Article Schema
+// ============================================================================
+
+export const ArticleMinimalSchema = z.object({
+	id: z.string(),
+	title: z.string(),
+	is_published: z.boolean(),
+	url: z.string().nullable().optional(),
+	last_published_at: z.string().nullable().optional(),
+});
+
+export type ArticleMinimal = z.infer<typeof ArticleMinimalSchema>;
+
+// ============================================================================
+// Schema Drift
+// ============================================================================
+
+/**
+ * Nested `{ id, ... }` object that Pylon returns for related records
+ * (issue.assignee, account.owner, contact.account, ...).
+ */
+const ReferenceSchema = z.object({ id: z.string() }).nullable().optional();
+
+const IssueReferencesSchema = z.object({
+	account: ReferenceSchema,
+	assignee: ReferenceSchema,
+	requester: ReferenceSchema,
+	team: ReferenceSchema,
+});
+
+const AccountReferencesSchema = z.object({ owner: ReferenceSchema });
+
+const ContactReferencesSchema = z.object({ account: ReferenceSchema });
+
+const MessageReferencesSchema = z.object({
+	author: z.object({
+		name: z.string(),
+		contact: ReferenceSchema,
+		user: ReferenceSchema,
+	}),
+});
+
+/**
+ * - lenient: report drift and return the transformed value as-is
+ * - strict: throw SchemaDriftError (used by the test suite)
+ */
+export type SchemaValidationMode = 'lenient' | 'strict';
+
+export interface SchemaDriftIssue {
+	/** Dotted path of the field in the response, e.g. "assignee.id" */
+	path: string;
+	message: string;
+}
+
+export interface SchemaDriftReport {
+	/** Kind of record, e.g. "issue" or "account" */
+	entity: string;
+	requestId: string | undefined;
+	issues: SchemaDriftIssue[];
+}
+
+/**
+ * Thrown in strict mode when a Pylon response does not match its schema.
+ */
+export class SchemaDriftError extends Error {
+	readonly report: SchemaDriftReport;
+
+	constructor(report: SchemaDriftReport) {
+		super(
+			`Pylon ${report.entity} response did not match the expected schema: ${formatDriftIssues(report.issues)}${report.requestId ? ` (request_id: ${report.requestId})` : ''}`,
+		);
+		this.name = 'SchemaDriftError';
+		this.report = report;
+	}
+}
+
+function formatDriftIssues(issues: SchemaDriftIssue[]): string {
+	return issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+}
+
+// Cap on remembered reports, so a long-running server doesn't grow without bound
+const MAX_REPORTED_DRIFT = 1000;
+const reportedDrift = new Set<string>();
+
+/**
+ * Default drift reporter: logs each drifted field once per request to stderr,
+ * rather than once per item in a list.
+ */
+function logDrift(report: SchemaDriftReport): void {
+	const issues = report.issues.filter((issue) => {
+		const key = `${report.requestId}:${report.entity}:${issue.path}`;
+		if (reportedDrift.has(key)) {
+			return false;
+		}
+		if (reportedDrift.size >= MAX_REPORTED_DRIFT) {
+			reportedDrift.clear();
+		}
+		reportedDrift.add(key);
+		return true;
+	});
+	if (issues.length > 0) {
+		console.error(
+			`[pylon-mcp] Schema drift in ${report.entity} response${report.requestId ? ` (request_id: ${report.requestId})` : ''}: ${formatDriftIssues(issues)}`,
+		);
+	}
+}
+
+const validation: {
+	mode: SchemaValidationMode;
+	onDrift: (report: SchemaDriftReport) => void;
+} = { mode: 'lenient', onDrift: logDrift };
+
+/**
+ * Configures how the to* transforms react to responses that don't match the schemas.
+ * Omitted options are reset to their defaults (lenient, logging to stderr).
+ */
+export function configureSchemaValidation(
+	options: {
+		mode?: SchemaValidationMode;
+		onDrift?: (report: SchemaDriftReport) => void;
+	} = {},
+): void {
+	validation.mode = options.mode ?? 'lenient';
+	validation.onDrift = options.onDrift ?? logDrift;
+}
+
+/**
+ * Checks a transformed record against its output schema, and the raw record
+ * against the shape of its nested references, so a field that silently became
+ * undefined is reported instead of passed on.
+ */
+function validated<T>(
+	entity: string,
+	schema: z.ZodType<T>,
+	value: T,
+	raw: Record<string, unknown>,
+	references: z.ZodType | undefined,
+	requestId: string | undefined,
+): T {
+	const issues: SchemaDriftIssue[] = [];
+	for (const [target, checkSchema] of [
+		[raw, references],
+		[value, schema],
+	] as const) {
+		const result = checkSchema?.safeParse(target);
+		if (result && !result.success) {
+			for (const issue of result.error.issues) {
+				if (issues.some((existing) => existing.path === issue.path.join('.'))) {
+					continue;
+				}
+				issues.push({ path: issue.path.join('.'), message: issue.message });
+			}
+		}
+	}
+	if (issues.length === 0) {
+		return value;
+	}
+
+	const report: SchemaDriftReport = { entity, requestId, issues };
+	if (validation.mode === 'strict') {
+		throw new SchemaDriftError(report);
+	}
+	validation.onDrift(report);
+	return value;
+}
+
 // ============================================================================
 // Transform Functions
 // ============================================================================
 
 const MAX_BODY_LENGTH = 500;
+const MAX_MESSAGE_LENGTH = 2000;
 
 /**
  * Strips HTML tags and truncates text for previews.
@@ -161,11 +362,35 @@ function stripHtmlAndTruncate(
 ): string {
 	if (!html) return '';
 	// Remove HTML tags
-	const text = html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+	const text = html
+		.replace(/<[^>]*>/g, ' ')
+		.replace(/\s+/g, ' ')
+		.trim();
 	if (text.length <= maxLength) return text;
 	return `${text.slice(0, maxLength - 3)}...`;
 }
 
+/**
+ * Converts message HTML to plain text, keeping paragraph and line breaks.
+ */
+function htmlToText(html: string | null | undefined): string {
+	if (!html) return '';
+	return html
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<\/(p|div|li|h[1-6]|blockquote)>/gi, '\n')
+		.replace(/<[^>]*>/g, '')
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, '&')
+		.replace(/[ \t]+/g, ' ')
+		.replace(/ *\n */g, '\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
 /**
  * Extract account_id from nested account object or direct field.
  */
@@ -218,15 +443,13 @@ function extractTeamId(
 	return team?.id ?? null;
 }
 
-/**
- * Transform a raw issue to minimal format.
- */
-export function toIssueMinimal(raw: Record<string, unknown>): IssueMinimal {
+function issueMinimalFields(raw: Record<string, unknown>): IssueMinimal {
 	return {
 		id: raw['id'] as string,
 		number: raw['number'] as number | undefined,
 		title: raw['title'] as string,
 		state: raw['state'] as string,
+		priority: raw['priority'] as string | null | undefined,
 		link: raw['link'] as string | undefined,
 		created_at: raw['created_at'] as string | undefined,
 		assignee_id: extractAssigneeId(raw),
@@ -235,40 +458,87 @@ export function toIssueMinimal(raw: Record<string, unknown>): IssueMinimal {
 	};
 }
 
-/**
- * Transform a raw issue to standard format (more fields, no body).
- */
-export function toIssueStandard(raw: Record<string, unknown>): IssueStandard {
+function issueStandardFields(raw: Record<string, unknown>): IssueStandard {
 	return {
-		...toIssueMinimal(raw),
+		...issueMinimalFields(raw),
 		requester_id: extractRequesterId(raw),
 		team_id: extractTeamId(raw),
 		resolution_time: raw['resolution_time'] as string | null | undefined,
-		latest_message_time: raw['latest_message_time'] as string | null | undefined,
-		first_response_time: raw['first_response_time'] as string | null | undefined,
-		customer_portal_visible: raw['customer_portal_visible'] as boolean | undefined,
+		latest_message_time: raw['latest_message_time'] as
+			| string
+			| null
+			| undefined,
+		first_response_time: raw['first_response_time'] as
+			| string
+			| null
+			| undefined,
+		customer_portal_visible: raw['customer_portal_visible'] as
+			| boolean
+			| undefined,
 		source: raw['source'] as string | undefined,
 		type: raw['type'] as string | undefined,
 	};
 }
 
 /**
- * Transform a raw issue to full format (includes truncated body).
+ * Transform a raw issue to minimal format.
+ * @param requestId Pylon request_id of the response, included in drift reports
  */
-export function toIssueFull(raw: Record<string, unknown>): IssueFull {
-	return {
-		...toIssueStandard(raw),
-		body_html: stripHtmlAndTruncate(
-			raw['body_html'] as string | null | undefined,
-			MAX_BODY_LENGTH,
-		),
-	};
+export function toIssueMinimal(
+	raw: Record<string, unknown>,
+	requestId?: string,
+): IssueMinimal {
+	return validated(
+		'issue',
+		IssueMinimalSchema,
+		issueMinimalFields(raw),
+		raw,
+		IssueReferencesSchema,
+		requestId,
+	);
 }
 
 /**
- * Transform raw account to minimal format.
+ * Transform a raw issue to standard format (more fields, no body).
  */
-export function toAccountMinimal(raw: Record<string, unknown>): AccountMinimal {
+export function toIssueStandard(
+	raw: Record<string, unknown>,
+	requestId?: string,
+): IssueStandard {
+	return validated(
+		'issue',
+		IssueStandardSchema,
+		issueStandardFields(raw),
+		raw,
+		IssueReferencesSchema,
+		requestId,
+	);
+}
+
+/**
+ * Transform a raw issue to full format (includes truncated body).
+ */
+export function toIssueFull(
+	raw: Record<string, unknown>,
+	requestId?: string,
+): IssueFull {
+	return validated(
+		'issue',
+		IssueFullSchema,
+		{
+			...issueStandardFields(raw),
+			body_html: stripHtmlAndTruncate(
+				raw['body_html'] as string | null | undefined,
+				MAX_BODY_LENGTH,
+			),
+		},
+		raw,
+		IssueReferencesSchema,
+		requestId,
+	);
+}
+
+function accountMinimalFields(raw: Record<string, unknown>): AccountMinimal {
 	const owner = raw['owner'] as { id?: string } | null | undefined;
 	return {
 		id: raw['id'] as string,
@@ -279,24 +549,46 @@ export function toAccountMinimal(raw: Record<string, unknown>): AccountMinimal {
 	};
 }
 
+/**
+ * Transform raw account to minimal format.
+ */
+export function toAccountMinimal(
+	raw: Record<string, unknown>,
+	requestId?: string,
+): AccountMinimal {
+	return validated(
+		'account',
+		AccountMinimalSchema,
+		accountMinimalFields(raw),
+		raw,
+		AccountReferencesSchema,
+		requestId,
+	);
+}
+
 /**
  * Transform raw account to standard format.
  */
 export function toAccountStandard(
 	raw: Record<string, unknown>,
+	requestId?: string,
 ): AccountStandard {
-	return {
-		...toAccountMinimal(raw),
-		domains: raw['domains'] as string[] | null | undefined,
-		created_at: raw['created_at'] as string | undefined,
-		type: raw['type'] as string | undefined,
-	};
+	return validated(
+		'account',
+		AccountStandardSchema,
+		{
+			...accountMinimalFields(raw),
+			domains: raw['domains'] as string[] | null | undefined,
+			created_at: raw['created_at'] as string | undefined,
+			type: raw['type'] as string | undefined,
+		},
+		raw,
+		AccountReferencesSchema,
+		requestId,
+	);
 }
 
-/**
- * Transform raw contact to minimal format.
- */
-export function toContactMinimal(raw: Record<string, unknown>): ContactMinimal {
+function contactMinimalFields(raw: Record<string, unknown>): ContactMinimal {
 	const account = raw['account'] as { id?: string } | null | undefined;
 	return {
 		id: raw['id'] as string,
@@ -307,24 +599,46 @@ export function toContactMinimal(raw: Record<string, unknown>): ContactMinimal {
 	};
 }
 
+/**
+ * Transform raw contact to minimal format.
+ */
+export function toContactMinimal(
+	raw: Record<string, unknown>,
+	requestId?: string,
+): ContactMinimal {
+	return validated(
+		'contact',
+		ContactMinimalSchema,
+		contactMinimalFields(raw),
+		raw,
+		ContactReferencesSchema,
+		requestId,
+	);
+}
+
 /**
  * Transform raw contact to standard format.
  */
 export function toContactStandard(
 	raw: Record<string, unknown>,
+	requestId?: string,
 ): ContactStandard {
-	return {
-		...toContactMinimal(raw),
-		emails: raw['emails'] as string[] | null | undefined,
-		avatar_url: raw['avatar_url'] as string | null | undefined,
-		created_at: raw['created_at'] as string | undefined,
-	};
+	return validated(
+		'contact',
+		ContactStandardSchema,
+		{
+			...contactMinimalFields(raw),
+			emails: raw['emails'] as string[] | null | undefined,
+			avatar_url: raw['avatar_url'] as string | null | undefined,
+			created_at: raw['created_at'] as string | undefined,
+		},
+		raw,
+		ContactReferencesSchema,
+		requestId,
+	);
 }
 
-/**
- * Transform raw team to minimal format.
- */
-export function toTeamMinimal(raw: Record<string, unknown>): TeamMinimal {
+function teamMinimalFields(raw: Record<string, unknown>): TeamMinimal {
 	const users = raw['users'] as { id: string; email: string }[] | undefined;
 	return {
 		id: raw['id'] as string,
@@ -333,12 +647,119 @@ export function toTeamMinimal(raw: Record<string, unknown>): TeamMinimal {
 	};
 }
 
+/**
+ * Transform raw team to minimal format.
+ */
+export function toTeamMinimal(
+	raw: Record<string, unknown>,
+	requestId?: string,
+): TeamMinimal {
+	return validated(
+		'team',
+		TeamMinimalSchema,
+		teamMinimalFields(raw),
+		raw,
+		undefined,
+		requestId,
+	);
+}
+
 /**
  * Transform raw team to standard format.
  */
-export function toTeamStandard(raw: Record<string, unknown>): TeamStandard {
-	return {
-		...toTeamMinimal(raw),
-		users: raw['users'] as { id: string; email: string }[] | undefined,
-	};
+export function toTeamStandard(
+	raw: Record<string, unknown>,
+	requestId?: string,
+): TeamStandard {
+	return validated(
+		'team',
+		TeamStandardSchema,
+		{
+			...teamMinimalFields(raw),
+			users: raw['users'] as { id: string; email: string }[] | undefined,
+		},
+		raw,
+		undefined,
+		requestId,
+	);
+}
+
+/**
+ * Transform raw user to minimal format.
+ */
+export function toUserMinimal(
+	raw: Record<string, unknown>,
+	requestId?: string,
+): UserMinimal {
+	return validated(
+		'user',
+		UserMinimalSchema,
+		{
+			id: raw['id'] as string,
+			name: raw['name'] as string | null | undefined,
+			email: raw['email'] as string,
+		},
+		raw,
+		undefined,
+		requestId,
+	);
+}
+
+/**
+ * Transform raw knowledge base article to minimal format (no body).
+ */
+export function toArticleMinimal(
+	raw: Record<string, unknown>,
+	requestId?: string,
+): ArticleMinimal {
+	return validated(
+		'article',
+		ArticleMinimalSchema,
+		{
+			id: raw['id'] as string,
+			title: raw['title'] as string,
+			is_published: raw['is_published'] as boolean,
+			url: raw['url'] as string | null | undefined,
+			last_published_at: raw['last_published_at'] as string | null | undefined,
+		},
+		raw,
+		undefined,
+		requestId,
+	);
+}
+
+/**
+ * Transform a raw issue message to a transcript entry (plain text, truncated).
+ */
+export function toMessageMinimal(
+	raw: Record<string, unknown>,
+	requestId?: string,
+): MessageMinimal {
+	const author = raw['author'] as
+		| { name?: string; contact?: unknown; user?: unknown }
+		| undefined;
+	const text = htmlToText(raw['message_html'] as string | null | undefined);
+	return validated(
+		'message',
+		MessageMinimalSchema,
+		{
+			id: raw['id'] as string,
+			timestamp: raw['timestamp'] as string,
+			author_name: author?.name as string,
+			author_type: author?.contact
+				? 'customer'
+				: author?.user
+					? 'team'
+					: 'unknown',
+			is_private: raw['is_private'] as boolean,
+			source: raw['source'] as string | undefined,
+			text:
+				text.length > MAX_MESSAGE_LENGTH
+					? `${text.slice(0, MAX_MESSAGE_LENGTH - 3)}...`
+					: text,
+		},
+		raw,
+		MessageReferencesSchema,
+		requestId,
+	);
 }
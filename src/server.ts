@@ -0,0 +1,60 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { PylonClient } from './pylon-client.js';
+import { Resolver } from './resolver.js';
+import { registerAccountTools } from './tools/accounts.js';
+import { registerAttachmentTools } from './tools/attachments.js';
+import { registerContactTools } from './tools/contacts.js';
+import { registerCustomFieldTools } from './tools/custom-fields.js';
+import { registerIssueTools } from './tools/issues.js';
+import { registerKnowledgeBaseTools } from './tools/knowledge-base.js';
+import { registerMessageTools } from './tools/messages.js';
+import { registerOrganizationTools } from './tools/organization.js';
+import { registerTagTools } from './tools/tags.js';
+import { registerTeamTools } from './tools/teams.js';
+import { registerTicketFormTools } from './tools/ticket-forms.js';
+import { registerUserTools } from './tools/users.js';
+
+export interface ServerOptions {
+	/** User reference (e.g. email) that "me" stands for in issue search queries */
+	currentUser?: string;
+	/** Directory local attachment files must be inside (default: the working directory) */
+	attachmentRoot?: string;
+}
+
+/**
+ * Creates an MCP server exposing every Pylon tool backed by the given client.
+ * Kept separate from the stdio entry point so tests can connect in-process.
+ */
+export function createServer(
+	client: PylonClient,
+	options: ServerOptions = {},
+): McpServer {
+	const server = new McpServer({
+		name: 'pylon-mcp',
+		version: '1.0.0',
+	});
+
+	// Shared so lookups cached by one tool call are reused by the next
+	const resolver = new Resolver(client);
+
+	registerOrganizationTools(server, client);
+	registerAccountTools(server, client, resolver);
+	registerContactTools(server, client, resolver);
+	registerCustomFieldTools(server, client);
+	registerIssueTools(
+		server,
+		client,
+		resolver,
+		options.currentUser,
+		options.attachmentRoot,
+	);
+	registerMessageTools(server, client, options.attachmentRoot);
+	registerAttachmentTools(server, client, options.attachmentRoot);
+	registerKnowledgeBaseTools(server, client, resolver);
+	registerTagTools(server, client, resolver);
+	registerTeamTools(server, client, resolver);
+	registerTicketFormTools(server, client, resolver);
+	registerUserTools(server, client, resolver);
+
+	return server;
+}
@@ -0,0 +1,134 @@
+/**
+ * Incremental tag changes for issues, accounts and contacts.
+ *
+ * Update tools take either `tags` (replaces every tag) or `add_tags` /
+ * `remove_tags`, which are applied to the record's current tags. Added tags
+ * must already exist for the object type; unknown ones fail with the closest
+ * existing tags as suggestions, so a typo doesn't create a near-duplicate.
+ */
+
+import { editDistance } from './edit-distance.js';
+import type { Tag } from './pylon-client.js';
+import type { Resolver } from './resolver.js';
+
+// Tags within this many edits of an unknown tag are suggested
+const MAX_SUGGESTION_DISTANCE = 2;
+const MAX_SUGGESTIONS = 3;
+
+export type TagObjectType = Tag['object_type'];
+
+export interface TagChanges {
+	tags?: string[];
+	add_tags?: string[];
+	remove_tags?: string[];
+}
+
+/**
+ * Thrown when tags to add don't exist for the object type.
+ */
+export class UnknownTagError extends Error {
+	readonly unknown: string[];
+
+	constructor(
+		objectType: TagObjectType,
+		unknown: { value: string; suggestions: string[] }[],
+	) {
+		const listed = unknown
+			.map(({ value, suggestions }) =>
+				suggestions.length > 0
+					? `"${value}" (did you mean ${suggestions.map((s) => `"${s}"`).join(' or ')}?)`
+					: `"${value}"`,
+			)
+			.join(', ');
+		super(
+			`Unknown ${objectType} tag${unknown.length === 1 ? '' : 's'}: ${listed}. Use pylon_list_tags to see existing tags, or pylon_create_tag to add one.`,
+		);
+		this.name = 'UnknownTagError';
+		this.unknown = unknown.map(({ value }) => value);
+	}
+}
+
+/**
+ * Returns the existing tags closest to an unknown one, best first.
+ */
+function suggestTags(value: string, known: string[]): string[] {
+	const needle = value.toLowerCase();
+	return known
+		.map((tag) => ({ tag, distance: editDistance(needle, tag.toLowerCase()) }))
+		.filter(
+			({ distance }) =>
+				distance <= MAX_SUGGESTION_DISTANCE && distance < needle.length,
+		)
+		.sort((a, b) => a.distance - b.distance)
+		.slice(0, MAX_SUGGESTIONS)
+		.map(({ tag }) => tag);
+}
+
+/**
+ * Maps tag values to existing tags of the object type (case-insensitive).
+ * @throws UnknownTagError listing every unknown tag with suggestions
+ */
+export function checkTags(
+	objectType: TagObjectType,
+	definitions: Tag[],
+	values: string[],
+): string[] {
+	const known = definitions
+		.filter((tag) => tag.object_type === objectType)
+		.map((tag) => tag.value);
+	const byLowerValue = new Map(known.map((tag) => [tag.toLowerCase(), tag]));
+
+	const unknown: { value: string; suggestions: string[] }[] = [];
+	const result: string[] = [];
+	for (const value of values) {
+		const tag = byLowerValue.get(value.trim().toLowerCase());
+		if (tag) {
+			result.push(tag);
+		} else {
+			unknown.push({ value, suggestions: suggestTags(value, known) });
+		}
+	}
+	if (unknown.length > 0) {
+		throw new UnknownTagError(objectType, unknown);
+	}
+	return result;
+}
+
+/**
+ * Computes the tags to send on an update. With add_tags/remove_tags, reads
+ * the record's current tags and applies the change; otherwise returns `tags`
+ * as given. Returns undefined when tags aren't being changed.
+ * @param loadCurrent - Reads the record's current tags
+ */
+export async function resolveTagChanges(
+	resolver: Resolver,
+	objectType: TagObjectType,
+	changes: TagChanges,
+	loadCurrent: () => Promise<string[] | undefined>,
+): Promise<string[] | undefined> {
+	const { tags, add_tags, remove_tags } = changes;
+	if (add_tags === undefined && remove_tags === undefined) {
+		return tags;
+	}
+	if (tags !== undefined) {
+		throw new Error(
+			'Pass either tags (replaces every tag) or add_tags/remove_tags, not both.',
+		);
+	}
+
+	const added = add_tags
+		? checkTags(objectType, await resolver.tagDefinitions(), add_tags)
+		: [];
+	const removed = new Set(remove_tags?.map((tag) => tag.trim().toLowerCase()));
+	const current = (await loadCurrent()) ?? [];
+
+	const next = current.filter((tag) => !removed.has(tag.toLowerCase()));
+	for (const tag of added) {
+		if (
+			!next.some((existing) => existing.toLowerCase() === tag.toLowerCase())
+		) {
+			next.push(tag);
+		}
+	}
+	return next;
+}
@@ -0,0 +1,76 @@
+/**
+ * Checks issue input against a ticket form's required fields.
+ *
+ * A form field is either a built-in issue field (title, priority, requester,
+ * ...) or an issue custom field. Missing fields are reported together so the
+ * caller can fix them in one retry.
+ */
+
+import type { CustomFieldInput } from './custom-fields.js';
+import type { TicketForm, TicketFormField } from './pylon-client.js';
+
+// Built-in form fields and the pylon_create_issue parameter that fills each
+const BUILT_IN_FIELDS: Record<string, string> = {
+	title: 'title',
+	body: 'body_html',
+	body_html: 'body_html',
+	description: 'body_html',
+	account: 'account_id',
+	assignee: 'assignee_id',
+	contact: 'contact_id',
+	requester: 'requester_id',
+	requester_email: 'requester_id',
+	priority: 'priority',
+	tags: 'tags',
+};
+
+/**
+ * Thrown when issue input leaves required ticket form fields empty.
+ */
+export class MissingFormFieldsError extends Error {
+	readonly missing: TicketFormField[];
+
+	constructor(form: TicketForm, missing: TicketFormField[]) {
+		const lines = missing.map((field) => {
+			const param = BUILT_IN_FIELDS[field.slug];
+			return `- ${field.label}: set ${param ?? `custom_fields.${field.slug}`}`;
+		});
+		super(
+			`Ticket form "${form.name}" (${form.id}) requires ${missing.length} field${missing.length === 1 ? '' : 's'} that ${missing.length === 1 ? 'was' : 'were'} not provided:\n${lines.join('\n')}\nUse pylon_get_ticket_form to see the form's fields.`,
+		);
+		this.name = 'MissingFormFieldsError';
+		this.missing = missing;
+	}
+}
+
+function isFilled(value: unknown): boolean {
+	if (typeof value === 'string') {
+		return value.trim() !== '';
+	}
+	if (Array.isArray(value)) {
+		return value.length > 0;
+	}
+	return value !== undefined && value !== null;
+}
+
+/**
+ * Throws if any required form field is missing from the issue input.
+ * @param params - Built-in issue parameters, keyed by pylon_create_issue parameter name
+ * @param customFields - Custom field values, keyed by slug
+ */
+export function checkRequiredFormFields(
+	form: TicketForm,
+	params: Record<string, unknown>,
+	customFields: Record<string, CustomFieldInput> | undefined,
+): void {
+	const missing = form.fields.filter((field) => {
+		if (!field.required) {
+			return false;
+		}
+		const param = BUILT_IN_FIELDS[field.slug];
+		return !isFilled(param ? params[param] : customFields?.[field.slug]);
+	});
+	if (missing.length > 0) {
+		throw new MissingFormFieldsError(form, missing);
+	}
+}
@@ -0,0 +1,277 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { planFilter } from '../compound-filters.js';
+import { prepareCustomFields } from '../custom-fields.js';
+import { filterSchema } from '../filter-fields.js';
+import type { PylonClient } from '../pylon-client.js';
+import type { Resolver } from '../resolver.js';
+import { type AccountMinimal, toAccountMinimal } from '../schemas.js';
+import { resolveTagChanges } from '../tags.js';
+import {
+	customFieldsParam,
+	DEFAULT_LIST_LIMIT,
+	escapeCell,
+	fetchAllParams,
+	fetchFilterPlan,
+	fetchPages,
+	filterWarning,
+	MAX_LIST_LIMIT,
+	MAX_NAME_LENGTH,
+	tagChangeParams,
+	truncate,
+	withErrorHandling,
+} from './shared.js';
+
+/**
+ * Formats accounts as a markdown table for compact, token-efficient output.
+ */
+function formatAccountsAsTable(accounts: AccountMinimal[]): string {
+	if (accounts.length === 0) {
+		return 'No accounts found.';
+	}
+
+	const headers = ['ID', 'Name', 'Domain', 'Tags'];
+	const rows = accounts.map((account) => [
+		escapeCell(account.id),
+		escapeCell(truncate(account.name, MAX_NAME_LENGTH)),
+		escapeCell(account.primary_domain || '-'),
+		escapeCell((account.tags || []).slice(0, 3).join(', ') || '-'),
+	]);
+
+	const headerRow = `| ${headers.join(' | ')} |`;
+	const separatorRow = `|${headers.map(() => '---').join('|')}|`;
+	const dataRows = rows.map((row) => `| ${row.join(' | ')} |`).join('\n');
+
+	return `${headerRow}\n${separatorRow}\n${dataRows}`;
+}
+
+/**
+ * Registers account tools.
+ */
+export function registerAccountTools(
+	server: McpServer,
+	client: PylonClient,
+	resolver: Resolver,
+): void {
+	server.tool(
+		'pylon_list_accounts',
+		'List accounts. Returns compact table. Use pylon_get_account for details.',
+		{
+			limit: z
+				.number()
+				.min(1)
+				.max(MAX_LIST_LIMIT)
+				.optional()
+				.describe(
+					`Number of accounts to return (1-${MAX_LIST_LIMIT}, default ${DEFAULT_LIST_LIMIT})`,
+				),
+			cursor: z.string().optional().describe('Pagination cursor for next page'),
+			...fetchAllParams,
+		},
+		withErrorHandling(async ({ limit, cursor, fetch_all, max_items }) => {
+			const { items, footer, requestIds } = await fetchPages(
+				client,
+				(page) => client.listAccounts(page),
+				{
+					limit: limit ?? DEFAULT_LIST_LIMIT,
+					cursor,
+					fetchAll: fetch_all,
+					maxItems: max_items,
+				},
+			);
+
+			// Transform to minimal format to reduce context size
+			const accounts = items.map((raw) =>
+				toAccountMinimal(
+					raw as unknown as Record<string, unknown>,
+					requestIds.get(raw.id),
+				),
+			);
+
+			const table = formatAccountsAsTable(accounts);
+
+			return {
+				content: [{ type: 'text', text: table + footer }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_get_account',
+		'Get account details by ID.',
+		{
+			id: z.string().describe('The account ID or external ID'),
+		},
+		withErrorHandling(async ({ id }) => {
+			const result = await client.getAccount(id);
+			// Return minimal fields to reduce context size
+			const account = toAccountMinimal(
+				result.data as unknown as Record<string, unknown>,
+				result.request_id,
+			);
+			return {
+				content: [{ type: 'text', text: JSON.stringify(account, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_create_account',
+		'Create a new account in Pylon',
+		{
+			name: z.string().describe('The name of the account'),
+			domains: z
+				.array(z.string())
+				.optional()
+				.describe('List of domains associated with the account'),
+			primary_domain: z.string().optional().describe('Primary domain'),
+			logo_url: z.string().optional().describe('URL of the account logo'),
+			owner_id: z.string().optional().describe('ID of the account owner'),
+			tags: z
+				.array(z.string())
+				.optional()
+				.describe('Tags to apply to the account'),
+			custom_fields: customFieldsParam,
+		},
+		withErrorHandling(async ({ custom_fields, ...data }) => {
+			const result = await client.createAccount({
+				...data,
+				custom_fields: await prepareCustomFields(
+					resolver,
+					'account',
+					custom_fields,
+				),
+			});
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result.data, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_update_account',
+		'Update an existing account',
+		{
+			id: z.string().describe('The account ID'),
+			name: z.string().optional().describe('New name for the account'),
+			domains: z
+				.array(z.string())
+				.optional()
+				.describe('Updated list of domains'),
+			primary_domain: z.string().optional().describe('Updated primary domain'),
+			logo_url: z.string().optional().describe('Updated logo URL'),
+			owner_id: z.string().optional().describe('Updated owner ID'),
+			tags: z
+				.array(z.string())
+				.optional()
+				.describe(
+					'Replaces every tag on the account. Use add_tags/remove_tags to change some',
+				),
+			...tagChangeParams,
+			custom_fields: customFieldsParam,
+		},
+		withErrorHandling(
+			async ({ id, custom_fields, tags, add_tags, remove_tags, ...data }) => {
+				const result = await client.updateAccount(id, {
+					...data,
+					tags: await resolveTagChanges(
+						resolver,
+						'account',
+						{ tags, add_tags, remove_tags },
+						async () => (await client.getAccount(id)).data.tags,
+					),
+					custom_fields: await prepareCustomFields(
+						resolver,
+						'account',
+						custom_fields,
+					),
+				});
+				return {
+					content: [
+						{ type: 'text', text: JSON.stringify(result.data, null, 2) },
+					],
+				};
+			},
+		),
+	);
+
+	server.tool(
+		'pylon_delete_account',
+		'Delete an account',
+		{
+			id: z.string().describe('The account ID to delete'),
+		},
+		withErrorHandling(async ({ id }) => {
+			const result = await client.deleteAccount(id);
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_search_accounts',
+		'Search accounts with filters. Returns compact table.',
+		{
+			filter: filterSchema('account', '{name: {string_contains: "acme"}}'),
+			limit: z
+				.number()
+				.min(1)
+				.max(MAX_LIST_LIMIT)
+				.optional()
+				.describe(
+					`Results limit (1-${MAX_LIST_LIMIT}, default ${DEFAULT_LIST_LIMIT})`,
+				),
+			cursor: z.string().optional().describe('Pagination cursor'),
+			...fetchAllParams,
+		},
+		withErrorHandling(
+			async ({ filter, limit, cursor, fetch_all, max_items }) => {
+				client.checkFilter('account', filter);
+				const plan = planFilter('account', filter);
+				const options = {
+					limit: limit ?? DEFAULT_LIST_LIMIT,
+					cursor,
+					fetchAll: fetch_all,
+					maxItems: max_items,
+				};
+				const { items, footer, requestIds } =
+					plan.kind === 'query'
+						? await fetchPages(
+								client,
+								(page) => client.searchAccounts(plan.conditions, page),
+								options,
+							)
+						: await fetchFilterPlan(
+								plan,
+								(conditions, maxItems) =>
+									fetchPages(
+										client,
+										(page) => client.searchAccounts(conditions, page),
+										{ limit: MAX_LIST_LIMIT, fetchAll: true, maxItems },
+									),
+								options,
+							);
+
+				// Transform to minimal format to reduce context size
+				const accounts = items.map((raw) =>
+					toAccountMinimal(
+						raw as unknown as Record<string, unknown>,
+						requestIds.get(raw.id),
+					),
+				);
+
+				const table = formatAccountsAsTable(accounts);
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text: filterWarning('account', filter) + table + footer,
+						},
+					],
+				};
+			},
+		),
+	);
+}
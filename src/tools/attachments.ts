@@ -0,0 +1,72 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import {
+	decodeAttachment,
+	MAX_ATTACHMENT_BYTES,
+	type PreparedAttachment,
+	readAttachmentFile,
+} from '../attachments.js';
+import type { PylonClient } from '../pylon-client.js';
+import { withErrorHandling } from './shared.js';
+
+/**
+ * Registers attachment tools.
+ */
+export function registerAttachmentTools(
+	server: McpServer,
+	client: PylonClient,
+	attachmentRoot?: string,
+): void {
+	server.tool(
+		'pylon_upload_attachment',
+		`Upload a file (e.g. a log or screenshot) to Pylon and get a URL to pass in attachment_urls on pylon_create_issue, pylon_reply_to_issue or pylon_add_internal_note. Pass either an absolute local path inside the attachment folder (PYLON_ATTACHMENT_ROOT, default the working directory) or base64 content with a filename. Images, PDFs, text, logs, CSV, JSON, HAR and zip/gzip files up to ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB are allowed.`,
+		{
+			path: z
+				.string()
+				.optional()
+				.describe(
+					'Absolute path of a local file inside the attachment folder to upload',
+				),
+			content_base64: z
+				.string()
+				.optional()
+				.describe('Base64-encoded file content, instead of path'),
+			filename: z
+				.string()
+				.optional()
+				.describe(
+					'File name including extension; required with content_base64',
+				),
+			mime_type: z
+				.string()
+				.optional()
+				.describe(
+					'MIME type for content_base64 (default: from the filename extension)',
+				),
+			description: z.string().optional().describe('Attachment description'),
+		},
+		withErrorHandling(
+			async ({ path, content_base64, filename, mime_type, description }) => {
+				if ((path === undefined) === (content_base64 === undefined)) {
+					throw new Error('Pass exactly one of path or content_base64.');
+				}
+				let file: PreparedAttachment;
+				if (path !== undefined) {
+					file = await readAttachmentFile(path, attachmentRoot);
+				} else {
+					if (!filename) {
+						throw new Error('filename is required with content_base64.');
+					}
+					file = decodeAttachment(filename, content_base64 ?? '', mime_type);
+				}
+
+				const result = await client.uploadAttachment({ ...file, description });
+				return {
+					content: [
+						{ type: 'text', text: JSON.stringify(result.data, null, 2) },
+					],
+				};
+			},
+		),
+	);
+}
@@ -0,0 +1,289 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { planFilter } from '../compound-filters.js';
+import { prepareCustomFields } from '../custom-fields.js';
+import { filterSchema } from '../filter-fields.js';
+import type { PylonClient } from '../pylon-client.js';
+import { type Resolver, resolveOptional } from '../resolver.js';
+import { type ContactMinimal, toContactMinimal } from '../schemas.js';
+import { resolveTagChanges } from '../tags.js';
+import {
+	customFieldsParam,
+	DEFAULT_LIST_LIMIT,
+	escapeCell,
+	fetchAllParams,
+	fetchFilterPlan,
+	fetchPages,
+	filterWarning,
+	MAX_LIST_LIMIT,
+	MAX_NAME_LENGTH,
+	tagChangeParams,
+	truncate,
+	withErrorHandling,
+} from './shared.js';
+
+/**
+ * Formats contacts as a markdown table for compact, token-efficient output.
+ */
+function formatContactsAsTable(contacts: ContactMinimal[]): string {
+	if (contacts.length === 0) {
+		return 'No contacts found.';
+	}
+
+	const headers = ['ID', 'Name', 'Email', 'Account ID'];
+	const rows = contacts.map((contact) => [
+		escapeCell(contact.id),
+		escapeCell(truncate(contact.name, MAX_NAME_LENGTH)),
+		escapeCell(contact.email || '-'),
+		escapeCell(contact.account_id || '-'),
+	]);
+
+	const headerRow = `| ${headers.join(' | ')} |`;
+	const separatorRow = `|${headers.map(() => '---').join('|')}|`;
+	const dataRows = rows.map((row) => `| ${row.join(' | ')} |`).join('\n');
+
+	return `${headerRow}\n${separatorRow}\n${dataRows}`;
+}
+
+/**
+ * Registers contact tools.
+ */
+export function registerContactTools(
+	server: McpServer,
+	client: PylonClient,
+	resolver: Resolver,
+): void {
+	server.tool(
+		'pylon_list_contacts',
+		'List contacts. Returns compact table.',
+		{
+			limit: z
+				.number()
+				.min(1)
+				.max(MAX_LIST_LIMIT)
+				.optional()
+				.describe(
+					`Number of contacts to return (1-${MAX_LIST_LIMIT}, default ${DEFAULT_LIST_LIMIT})`,
+				),
+			cursor: z.string().optional().describe('Pagination cursor for next page'),
+			...fetchAllParams,
+		},
+		withErrorHandling(async ({ limit, cursor, fetch_all, max_items }) => {
+			const { items, footer, requestIds } = await fetchPages(
+				client,
+				(page) => client.listContacts(page),
+				{
+					limit: limit ?? DEFAULT_LIST_LIMIT,
+					cursor,
+					fetchAll: fetch_all,
+					maxItems: max_items,
+				},
+			);
+
+			// Transform to minimal format to reduce context size
+			const contacts = items.map((raw) =>
+				toContactMinimal(
+					raw as unknown as Record<string, unknown>,
+					requestIds.get(raw.id),
+				),
+			);
+
+			const table = formatContactsAsTable(contacts);
+
+			return {
+				content: [{ type: 'text', text: table + footer }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_get_contact',
+		'Get contact details by ID.',
+		{
+			id: z.string().describe('The contact ID'),
+		},
+		withErrorHandling(async ({ id }) => {
+			const result = await client.getContact(id);
+			// Return minimal fields to reduce context size
+			const contact = toContactMinimal(
+				result.data as unknown as Record<string, unknown>,
+				result.request_id,
+			);
+			return {
+				content: [{ type: 'text', text: JSON.stringify(contact, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_create_contact',
+		'Create a new contact in Pylon',
+		{
+			name: z.string().describe('The name of the contact'),
+			email: z.string().optional().describe('Email address of the contact'),
+			account_id: z
+				.string()
+				.optional()
+				.describe('Account to associate with: ID, exact name, or domain'),
+			avatar_url: z.string().optional().describe('URL of the contact avatar'),
+			portal_role: z
+				.enum(['no_access', 'member', 'admin'])
+				.optional()
+				.describe('Portal access role'),
+			custom_fields: customFieldsParam,
+		},
+		withErrorHandling(async ({ account_id, custom_fields, ...data }) => {
+			const result = await client.createContact({
+				...data,
+				custom_fields: await prepareCustomFields(
+					resolver,
+					'contact',
+					custom_fields,
+				),
+				account_id: await resolveOptional(account_id, (ref) =>
+					resolver.resolveAccount(ref),
+				),
+			});
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result.data, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_update_contact',
+		'Update an existing contact',
+		{
+			id: z.string().describe('The contact ID'),
+			name: z.string().optional().describe('Updated name'),
+			email: z.string().optional().describe('Updated email'),
+			account_id: z
+				.string()
+				.optional()
+				.describe('Account to associate with: ID, exact name, or domain'),
+			avatar_url: z.string().optional().describe('Updated avatar URL'),
+			portal_role: z
+				.enum(['no_access', 'member', 'admin'])
+				.optional()
+				.describe('Updated portal role'),
+			...tagChangeParams,
+			custom_fields: customFieldsParam,
+		},
+		withErrorHandling(
+			async ({
+				id,
+				account_id,
+				custom_fields,
+				add_tags,
+				remove_tags,
+				...data
+			}) => {
+				const result = await client.updateContact(id, {
+					...data,
+					account_id: await resolveOptional(account_id, (ref) =>
+						resolver.resolveAccount(ref),
+					),
+					tags: await resolveTagChanges(
+						resolver,
+						'contact',
+						{ add_tags, remove_tags },
+						async () => (await client.getContact(id)).data.tags,
+					),
+					custom_fields: await prepareCustomFields(
+						resolver,
+						'contact',
+						custom_fields,
+					),
+				});
+				return {
+					content: [
+						{ type: 'text', text: JSON.stringify(result.data, null, 2) },
+					],
+				};
+			},
+		),
+	);
+
+	server.tool(
+		'pylon_delete_contact',
+		'Delete a contact',
+		{
+			id: z.string().describe('The contact ID to delete'),
+		},
+		withErrorHandling(async ({ id }) => {
+			const result = await client.deleteContact(id);
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_search_contacts',
+		'Search contacts with filters. Returns compact table.',
+		{
+			filter: filterSchema(
+				'contact',
+				'{email: {string_contains: "@example.com"}}',
+			),
+			limit: z
+				.number()
+				.min(1)
+				.max(MAX_LIST_LIMIT)
+				.optional()
+				.describe(
+					`Results limit (1-${MAX_LIST_LIMIT}, default ${DEFAULT_LIST_LIMIT})`,
+				),
+			cursor: z.string().optional().describe('Pagination cursor'),
+			...fetchAllParams,
+		},
+		withErrorHandling(
+			async ({ filter, limit, cursor, fetch_all, max_items }) => {
+				client.checkFilter('contact', filter);
+				const plan = planFilter('contact', filter);
+				const options = {
+					limit: limit ?? DEFAULT_LIST_LIMIT,
+					cursor,
+					fetchAll: fetch_all,
+					maxItems: max_items,
+				};
+				const { items, footer, requestIds } =
+					plan.kind === 'query'
+						? await fetchPages(
+								client,
+								(page) => client.searchContacts(plan.conditions, page),
+								options,
+							)
+						: await fetchFilterPlan(
+								plan,
+								(conditions, maxItems) =>
+									fetchPages(
+										client,
+										(page) => client.searchContacts(conditions, page),
+										{ limit: MAX_LIST_LIMIT, fetchAll: true, maxItems },
+									),
+								options,
+							);
+
+				// Transform to minimal format to reduce context size
+				const contacts = items.map((raw) =>
+					toContactMinimal(
+						raw as unknown as Record<string, unknown>,
+						requestIds.get(raw.id),
+					),
+				);
+
+				const table = formatContactsAsTable(contacts);
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text: filterWarning('contact', filter) + table + footer,
+						},
+					],
+				};
+			},
+		),
+	);
+}
@@ -0,0 +1,70 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type {
+	CustomField,
+	CustomFieldObjectType,
+	PylonClient,
+} from '../pylon-client.js';
+import { escapeCell, MAX_LIST_LIMIT, withErrorHandling } from './shared.js';
+
+const OBJECT_TYPES: CustomFieldObjectType[] = ['issue', 'account', 'contact'];
+
+/**
+ * Formats custom field definitions as a markdown table.
+ */
+function formatCustomFieldsAsTable(fields: CustomField[]): string {
+	if (fields.length === 0) {
+		return 'No custom fields found.';
+	}
+
+	const headers = ['Slug', 'Label', 'Type', 'Object', 'Options'];
+	const rows = fields.map((field) => [
+		escapeCell(field.slug),
+		escapeCell(field.label),
+		escapeCell(field.type),
+		escapeCell(field.object_type),
+		escapeCell(
+			field.select_metadata?.options.map((option) => option.slug).join(', ') ||
+				'-',
+		),
+	]);
+
+	const headerRow = `| ${headers.join(' | ')} |`;
+	const separatorRow = `|${headers.map(() => '---').join('|')}|`;
+	const dataRows = rows.map((row) => `| ${row.join(' | ')} |`).join('\n');
+
+	return `${headerRow}\n${separatorRow}\n${dataRows}`;
+}
+
+/**
+ * Registers custom field tools.
+ */
+export function registerCustomFieldTools(
+	server: McpServer,
+	client: PylonClient,
+): void {
+	server.tool(
+		'pylon_list_custom_fields',
+		'List custom field definitions: slug, type, object type and allowed options. Use the slugs to set custom_fields on the issue, account and contact create/update tools.',
+		{
+			object_type: z
+				.enum(['issue', 'account', 'contact'])
+				.optional()
+				.describe('Only fields for this object type (default all)'),
+		},
+		withErrorHandling(async ({ object_type }) => {
+			const fields: CustomField[] = [];
+			for (const objectType of object_type ? [object_type] : OBJECT_TYPES) {
+				for await (const field of client.paginate(
+					(page) => client.listCustomFields(objectType, page),
+					{ pageSize: MAX_LIST_LIMIT },
+				)) {
+					fields.push(field);
+				}
+			}
+			return {
+				content: [{ type: 'text', text: formatCustomFieldsAsTable(fields) }],
+			};
+		}),
+	);
+}
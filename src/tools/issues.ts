@@ -0,0 +1,619 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { resolveAttachmentUrls } from '../attachments.js';
+import { type FilterConditions, planFilter } from '../compound-filters.js';
+import { prepareCustomFields } from '../custom-fields.js';
+import { filterSchema, ISSUE_PRIORITIES } from '../filter-fields.js';
+import { parseIssueQuery } from '../issue-query.js';
+import {
+	exceedsMaxTimeRange,
+	hasLongTimeRange,
+	type PylonClient,
+	type TicketForm,
+} from '../pylon-client.js';
+import { type Resolver, resolveOptional } from '../resolver.js';
+import {
+	type IssueMinimal,
+	toIssueFull,
+	toIssueMinimal,
+	toIssueStandard,
+} from '../schemas.js';
+import { resolveTagChanges } from '../tags.js';
+import { checkRequiredFormFields } from '../ticket-forms.js';
+import {
+	attachmentsParam,
+	customFieldsParam,
+	DEFAULT_ISSUE_LIMIT,
+	DEFAULT_LIST_LIMIT,
+	escapeCell,
+	fetchAllParams,
+	fetchFilterPlan,
+	fetchPages,
+	fetchTimeWindows,
+	filterWarning,
+	MAX_LIST_LIMIT,
+	MAX_TITLE_LENGTH,
+	stripHtml,
+	tagChangeParams,
+	timeWindowParams,
+	truncate,
+	withErrorHandling,
+} from './shared.js';
+
+const issuePriority = z.enum(ISSUE_PRIORITIES);
+
+/**
+ * Formats issues as a markdown table for compact, token-efficient output.
+ */
+function formatIssuesAsTable(issues: IssueMinimal[]): string {
+	if (issues.length === 0) {
+		return 'No issues found.';
+	}
+
+	const headers = ['#', 'Title', 'State', 'Priority', 'Created', 'Link'];
+	const rows = issues.map((issue) => [
+		escapeCell(String(issue.number ?? '')),
+		escapeCell(truncate(issue.title, MAX_TITLE_LENGTH)),
+		escapeCell(issue.state),
+		escapeCell(issue.priority || '-'),
+		escapeCell(issue.created_at?.split('T')[0] || '-'),
+		issue.link || '-',
+	]);
+
+	const headerRow = `| ${headers.join(' | ')} |`;
+	const separatorRow = `|${headers.map(() => '---').join('|')}|`;
+	const dataRows = rows.map((row) => `| ${row.join(' | ')} |`).join('\n');
+
+	return `${headerRow}\n${separatorRow}\n${dataRows}`;
+}
+
+/**
+ * Registers issue tools.
+ * @param currentUser - User reference that "me" stands for in search queries
+ */
+export function registerIssueTools(
+	server: McpServer,
+	client: PylonClient,
+	resolver: Resolver,
+	currentUser?: string,
+	attachmentRoot?: string,
+): void {
+	server.tool(
+		'pylon_list_issues',
+		'List issues within a time range. Ranges over 30 days are split into 30-day windows and returned oldest first. Returns compact table. Use pylon_get_issue for details.',
+		{
+			start_time: z
+				.string()
+				.describe('Start time in RFC3339 format (e.g., 2024-01-01T00:00:00Z)'),
+			end_time: z
+				.string()
+				.describe('End time in RFC3339 format (e.g., 2024-01-31T00:00:00Z)'),
+			limit: z
+				.number()
+				.min(1)
+				.max(100)
+				.optional()
+				.describe(
+					`Number of issues to return (1-100, default ${DEFAULT_ISSUE_LIMIT})`,
+				),
+			cursor: z
+				.string()
+				.optional()
+				.describe(
+					'Pagination cursor for next page (not supported for ranges over 30 days)',
+				),
+			...fetchAllParams,
+			...timeWindowParams,
+		},
+		withErrorHandling(
+			async ({
+				start_time,
+				end_time,
+				limit,
+				cursor,
+				fetch_all,
+				max_items,
+				parallel,
+			}) => {
+				const options = {
+					limit: limit ?? DEFAULT_ISSUE_LIMIT,
+					cursor,
+					fetchAll: fetch_all,
+					maxItems: max_items,
+				};
+				const { items, footer, requestIds } = exceedsMaxTimeRange(
+					start_time,
+					end_time,
+				)
+					? await fetchTimeWindows(
+							(windowOptions) =>
+								client.listIssuesInWindows(start_time, end_time, windowOptions),
+							{ ...options, parallel },
+						)
+					: await fetchPages(
+							client,
+							(page) => client.listIssues(start_time, end_time, page),
+							options,
+						);
+
+				// Transform to minimal format to reduce context size
+				const issues = items.map((raw) =>
+					toIssueMinimal(
+						raw as unknown as Record<string, unknown>,
+						requestIds.get(raw.id),
+					),
+				);
+
+				const table = formatIssuesAsTable(issues);
+
+				return {
+					content: [{ type: 'text', text: table + footer }],
+				};
+			},
+		),
+	);
+
+	server.tool(
+		'pylon_get_issue',
+		'Get issue details by ID or number. Returns standard fields (no body). Use pylon_get_issue_body to fetch body content.',
+		{
+			id: z.string().describe('The issue ID or issue number'),
+			include_body: z
+				.boolean()
+				.optional()
+				.describe('Include truncated body preview (500 chars max)'),
+		},
+		withErrorHandling(async ({ id, include_body }) => {
+			const result = await client.getIssue(id);
+			const raw = result.data as unknown as Record<string, unknown>;
+
+			if (include_body) {
+				const issue = toIssueFull(raw, result.request_id);
+				return {
+					content: [{ type: 'text', text: JSON.stringify(issue, null, 2) }],
+				};
+			}
+
+			const issue = toIssueStandard(raw, result.request_id);
+			return {
+				content: [{ type: 'text', text: JSON.stringify(issue, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_get_issue_body',
+		'Get the full body content of an issue. Warning: can be very large for email threads.',
+		{
+			id: z.string().describe('The issue ID or issue number'),
+			max_length: z
+				.number()
+				.min(100)
+				.max(10000)
+				.optional()
+				.describe('Maximum body length to return (default 2000, max 10000)'),
+		},
+		withErrorHandling(async ({ id, max_length }) => {
+			const result = await client.getIssue(id);
+			const raw = result.data as unknown as Record<string, unknown>;
+			const bodyHtml = raw['body_html'] as string | null | undefined;
+
+			if (!bodyHtml) {
+				return {
+					content: [{ type: 'text', text: 'No body content available.' }],
+				};
+			}
+
+			// Strip HTML and truncate
+			const maxLen = max_length ?? 2000;
+			const text = stripHtml(bodyHtml);
+			const truncated =
+				text.length > maxLen ? `${text.slice(0, maxLen - 3)}...` : text;
+
+			return {
+				content: [
+					{
+						type: 'text',
+						text: `Issue #${raw['number']} body (${text.length} chars total, showing ${truncated.length}):\n\n${truncated}`,
+					},
+				],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_create_issue',
+		'Create a new issue/ticket in Pylon. With ticket_form_id, every field the form requires must be provided; missing fields are listed in one error.',
+		{
+			title: z.string().describe('Title of the issue'),
+			body_html: z.string().describe('HTML content of the issue body'),
+			account_id: z
+				.string()
+				.optional()
+				.describe('Associated account: ID, exact name, or domain'),
+			assignee_id: z
+				.string()
+				.optional()
+				.describe('User to assign the issue to: ID, email, or name'),
+			contact_id: z
+				.string()
+				.optional()
+				.describe('Associated contact: ID or email'),
+			requester_id: z
+				.string()
+				.optional()
+				.describe('Requester contact: ID or email'),
+			tags: z.array(z.string()).optional().describe('Tags to apply'),
+			priority: issuePriority.optional().describe('Issue priority'),
+			attachment_urls: attachmentsParam,
+			custom_fields: customFieldsParam,
+			ticket_form_id: z
+				.string()
+				.optional()
+				.describe('Ticket form to file the issue under: ID or name'),
+		},
+		withErrorHandling(
+			async ({
+				account_id,
+				assignee_id,
+				contact_id,
+				requester_id,
+				custom_fields,
+				ticket_form_id,
+				attachment_urls,
+				...data
+			}) => {
+				let form: TicketForm | undefined;
+				if (ticket_form_id) {
+					const formId = await resolver.resolveTicketForm(ticket_form_id);
+					form = (await client.getTicketForm(formId)).data;
+					checkRequiredFormFields(
+						form,
+						{ ...data, account_id, assignee_id, contact_id, requester_id },
+						custom_fields,
+					);
+				}
+
+				const result = await client.createIssue({
+					...data,
+					ticket_form_id: form?.id,
+					custom_fields: await prepareCustomFields(
+						resolver,
+						'issue',
+						custom_fields,
+					),
+					account_id: await resolveOptional(account_id, (ref) =>
+						resolver.resolveAccount(ref),
+					),
+					assignee_id: await resolveOptional(assignee_id, (ref) =>
+						resolver.resolveUser(ref),
+					),
+					contact_id: await resolveOptional(contact_id, (ref) =>
+						resolver.resolveContact(ref),
+					),
+					requester_id: await resolveOptional(requester_id, (ref) =>
+						resolver.resolveContact(ref),
+					),
+					// Uploaded last, once everything else has resolved
+					attachment_urls: await resolveAttachmentUrls(
+						client,
+						attachment_urls,
+						attachmentRoot,
+					),
+				});
+				return {
+					content: [
+						{ type: 'text', text: JSON.stringify(result.data, null, 2) },
+					],
+				};
+			},
+		),
+	);
+
+	server.tool(
+		'pylon_update_issue',
+		'Update an existing issue',
+		{
+			id: z
+				.string()
+				.describe('The issue: ID, number (e.g. 1234 or #1234), or Pylon URL'),
+			state: z
+				.string()
+				.optional()
+				.describe(
+					'Issue state: new, waiting_on_you, waiting_on_customer, on_hold, closed, or custom',
+				),
+			title: z.string().optional().describe('Updated title'),
+			tags: z
+				.array(z.string())
+				.optional()
+				.describe(
+					'Replaces every tag on the issue. Use add_tags/remove_tags to change some',
+				),
+			...tagChangeParams,
+			assignee_id: z
+				.string()
+				.optional()
+				.describe('New assignee: user ID, email, or name'),
+			team_id: z.string().optional().describe('Team to assign to: ID or name'),
+			account_id: z
+				.string()
+				.optional()
+				.describe('Updated account: ID, exact name, or domain'),
+			priority: issuePriority.optional().describe('Updated priority'),
+			customer_portal_visible: z
+				.boolean()
+				.optional()
+				.describe('Whether visible in customer portal'),
+			custom_fields: customFieldsParam,
+		},
+		withErrorHandling(
+			async ({
+				id,
+				assignee_id,
+				team_id,
+				account_id,
+				custom_fields,
+				tags,
+				add_tags,
+				remove_tags,
+				...data
+			}) => {
+				const issueId = await resolver.resolveIssue(id);
+				const result = await client.updateIssue(issueId, {
+					...data,
+					tags: await resolveTagChanges(
+						resolver,
+						'issue',
+						{ tags, add_tags, remove_tags },
+						async () => (await client.getIssue(issueId)).data.tags,
+					),
+					custom_fields: await prepareCustomFields(
+						resolver,
+						'issue',
+						custom_fields,
+					),
+					assignee_id: await resolveOptional(assignee_id, (ref) =>
+						resolver.resolveUser(ref),
+					),
+					team_id: await resolveOptional(team_id, (ref) =>
+						resolver.resolveTeam(ref),
+					),
+					account_id: await resolveOptional(account_id, (ref) =>
+						resolver.resolveAccount(ref),
+					),
+				});
+				return {
+					content: [
+						{ type: 'text', text: JSON.stringify(result.data, null, 2) },
+					],
+				};
+			},
+		),
+	);
+
+	server.tool(
+		'pylon_delete_issue',
+		'Delete an issue',
+		{
+			id: z.string().describe('The issue ID to delete'),
+		},
+		withErrorHandling(async ({ id }) => {
+			const result = await client.deleteIssue(id);
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_search_issues',
+		'Search issues with a query string, a structured filter, or both. A time_range over 30 days is split into 30-day windows and returned oldest first. Returns compact table, after the filter a query was parsed into. Use pylon_get_issue for details.',
+		{
+			query: z
+				.string()
+				.optional()
+				.describe(
+					'GitHub-style query, e.g. `state:waiting_on_you tag:bug assignee:me created:>2025-09-01 -tag:spam "login error"`. Qualifiers: state, priority, tag, title, type, source, portal (true/false), assignee, requester, account, team, form (ID, email or name; "none" for unset), created, updated, resolved, activity (>DATE, >=DATE, <DATE, <=DATE, DATE..DATE or DATE). "a,b" matches any value, "-" negates a term, bare words search titles for the words together, each "quoted phrase" searches titles separately, and OR separates alternatives',
+				),
+			filter: filterSchema(
+				'issue',
+				'{state: {equals: "new"}} or {title: {string_contains: "bug"}}',
+			).optional(),
+			limit: z
+				.number()
+				.min(1)
+				.max(100)
+				.optional()
+				.describe(
+					`Number of issues to return (1-100, default ${DEFAULT_ISSUE_LIMIT})`,
+				),
+			cursor: z
+				.string()
+				.optional()
+				.describe(
+					'Pagination cursor (not supported for time ranges over 30 days)',
+				),
+			...fetchAllParams,
+			...timeWindowParams,
+		},
+		withErrorHandling(
+			async ({
+				query,
+				filter: structured,
+				limit,
+				cursor,
+				fetch_all,
+				max_items,
+				parallel,
+			}) => {
+				const parsed =
+					query === undefined
+						? undefined
+						: await parseIssueQuery(query, resolver, currentUser);
+				const filter =
+					parsed && structured
+						? { and: [parsed, structured] }
+						: (parsed ?? structured);
+				if (!filter) {
+					throw new Error('Pass a query, a filter, or both.');
+				}
+				client.checkFilter('issue', filter);
+				const plan = planFilter('issue', filter);
+				const options = {
+					limit: limit ?? DEFAULT_ISSUE_LIMIT,
+					cursor,
+					fetchAll: fetch_all,
+					maxItems: max_items,
+				};
+				const search = (
+					conditions: FilterConditions,
+					pageOptions: Parameters<typeof fetchPages>[2],
+				) =>
+					hasLongTimeRange(conditions)
+						? fetchTimeWindows(
+								(windowOptions) =>
+									client.searchIssuesInWindows(conditions, windowOptions),
+								{ ...pageOptions, parallel },
+							)
+						: fetchPages(
+								client,
+								(page) => client.searchIssues(conditions, page),
+								pageOptions,
+							);
+				const { items, footer, requestIds } =
+					plan.kind === 'query'
+						? await search(plan.conditions, options)
+						: await fetchFilterPlan(
+								plan,
+								(conditions, maxItems) =>
+									search(conditions, {
+										limit: MAX_LIST_LIMIT,
+										fetchAll: true,
+										maxItems,
+									}),
+								options,
+							);
+
+				// Transform to minimal format to reduce context size
+				const issues = items.map((raw) =>
+					toIssueMinimal(
+						raw as unknown as Record<string, unknown>,
+						requestIds.get(raw.id),
+					),
+				);
+
+				const table = formatIssuesAsTable(issues);
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text:
+								(parsed ? `Query filter: ${JSON.stringify(parsed)}\n\n` : '') +
+								filterWarning('issue', filter) +
+								table +
+								footer,
+						},
+					],
+				};
+			},
+		),
+	);
+
+	server.tool(
+		'pylon_snooze_issue',
+		'Snooze an issue until a specific time',
+		{
+			id: z.string().describe('The issue ID'),
+			snooze_until: z
+				.string()
+				.describe('Time to snooze until in RFC3339 format'),
+		},
+		withErrorHandling(async ({ id, snooze_until }) => {
+			const result = await client.snoozeIssue(id, snooze_until);
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result.data, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_get_issue_followers',
+		'Get the list of users following an issue',
+		{
+			id: z.string().describe('The issue ID'),
+			limit: z
+				.number()
+				.min(1)
+				.max(MAX_LIST_LIMIT)
+				.optional()
+				.describe(
+					`Number of followers to return (1-${MAX_LIST_LIMIT}, default ${DEFAULT_LIST_LIMIT})`,
+				),
+			cursor: z.string().optional().describe('Pagination cursor for next page'),
+			...fetchAllParams,
+		},
+		withErrorHandling(async ({ id, limit, cursor, fetch_all, max_items }) => {
+			const { items, footer } = await fetchPages(
+				client,
+				(page) => client.getIssueFollowers(id, page),
+				{
+					limit: limit ?? DEFAULT_LIST_LIMIT,
+					cursor,
+					fetchAll: fetch_all,
+					maxItems: max_items,
+				},
+			);
+
+			return {
+				content: [
+					{ type: 'text', text: JSON.stringify(items, null, 2) + footer },
+				],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_update_issue_followers',
+		'Add or remove followers from an issue',
+		{
+			id: z
+				.string()
+				.describe('The issue: ID, number (e.g. 1234 or #1234), or Pylon URL'),
+			user_ids: z
+				.array(z.string())
+				.optional()
+				.describe('Users to add or remove as followers: IDs, emails, or names'),
+			contact_ids: z
+				.array(z.string())
+				.optional()
+				.describe('Contacts to add or remove as followers: IDs or emails'),
+			operation: z
+				.enum(['add', 'remove'])
+				.optional()
+				.describe('Operation to perform (default: add)'),
+		},
+		withErrorHandling(async ({ id, user_ids, contact_ids, operation }) => {
+			const result = await client.updateIssueFollowers(
+				await resolver.resolveIssue(id),
+				{
+					user_ids:
+						user_ids &&
+						(await Promise.all(
+							user_ids.map((ref) => resolver.resolveUser(ref)),
+						)),
+					contact_ids:
+						contact_ids &&
+						(await Promise.all(
+							contact_ids.map((ref) => resolver.resolveContact(ref)),
+						)),
+					operation,
+				},
+			);
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+			};
+		}),
+	);
+}
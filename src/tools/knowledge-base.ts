@@ -0,0 +1,339 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { markdownToHtml } from '../markdown.js';
+import type { Article, KnowledgeBase, PylonClient } from '../pylon-client.js';
+import type { Resolver } from '../resolver.js';
+import { type ArticleMinimal, toArticleMinimal } from '../schemas.js';
+import {
+	DEFAULT_LIST_LIMIT,
+	escapeCell,
+	fetchAllParams,
+	fetchPages,
+	MAX_LIST_LIMIT,
+	MAX_TITLE_LENGTH,
+	stripHtml,
+	truncate,
+	withErrorHandling,
+} from './shared.js';
+
+const DEFAULT_SEARCH_RESULTS = 10;
+const MAX_SEARCH_RESULTS = 50;
+// Upper bound on articles scanned per knowledge base when searching
+const MAX_SCANNED_ARTICLES = 2000;
+const SNIPPET_LENGTH = 160;
+// Characters of body text shown before the first matching term
+const SNIPPET_CONTEXT = 40;
+
+/**
+ * Formats knowledge bases as a markdown table.
+ */
+function formatKnowledgeBasesAsTable(knowledgeBases: KnowledgeBase[]): string {
+	if (knowledgeBases.length === 0) {
+		return 'No knowledge bases found.';
+	}
+
+	const headers = ['ID', 'Title', 'Language'];
+	const rows = knowledgeBases.map((kb) => [
+		escapeCell(kb.id),
+		escapeCell(truncate(kb.title, MAX_TITLE_LENGTH)),
+		escapeCell(kb.default_language ?? '-'),
+	]);
+
+	const headerRow = `| ${headers.join(' | ')} |`;
+	const separatorRow = `|${headers.map(() => '---').join('|')}|`;
+	const dataRows = rows.map((row) => `| ${row.join(' | ')} |`).join('\n');
+
+	return `${headerRow}\n${separatorRow}\n${dataRows}`;
+}
+
+/**
+ * Formats articles as a markdown table for compact, token-efficient output.
+ */
+function formatArticlesAsTable(articles: ArticleMinimal[]): string {
+	if (articles.length === 0) {
+		return 'No articles found.';
+	}
+
+	const headers = ['ID', 'Title', 'Published', 'Last published'];
+	const rows = articles.map((article) => [
+		escapeCell(article.id),
+		escapeCell(truncate(article.title, MAX_TITLE_LENGTH)),
+		article.is_published ? 'yes' : 'draft',
+		article.last_published_at?.split('T')[0] ?? '-',
+	]);
+
+	const headerRow = `| ${headers.join(' | ')} |`;
+	const separatorRow = `|${headers.map(() => '---').join('|')}|`;
+	const dataRows = rows.map((row) => `| ${row.join(' | ')} |`).join('\n');
+
+	return `${headerRow}\n${separatorRow}\n${dataRows}`;
+}
+
+interface ArticleMatch {
+	knowledgeBaseId: string;
+	article: ArticleMinimal;
+	snippet: string;
+	/** 0 when every term is in the title, 1 when some are only in the body */
+	rank: number;
+}
+
+/**
+ * Matches an article when every query term appears in its title or body.
+ */
+function matchArticle(
+	knowledgeBaseId: string,
+	raw: Article,
+	terms: string[],
+	requestId: string | undefined,
+): ArticleMatch | undefined {
+	const title = raw.title.toLowerCase();
+	const body = stripHtml(raw.body_html ?? '');
+	const lowerBody = body.toLowerCase();
+	if (
+		!terms.every((term) => title.includes(term) || lowerBody.includes(term))
+	) {
+		return undefined;
+	}
+
+	// Snippet starting a little before the first term found in the body
+	const positions = terms
+		.map((term) => lowerBody.indexOf(term))
+		.filter((index) => index >= 0);
+	const first = Math.min(...positions);
+	// Start on a word boundary so the snippet doesn't open mid-word
+	const start =
+		positions.length > 0 && first > SNIPPET_CONTEXT
+			? body.indexOf(' ', first - SNIPPET_CONTEXT) + 1
+			: 0;
+	const snippet = `${start > 0 ? '...' : ''}${truncate(body.slice(start), SNIPPET_LENGTH)}`;
+
+	return {
+		knowledgeBaseId,
+		article: toArticleMinimal(
+			raw as unknown as Record<string, unknown>,
+			requestId,
+		),
+		snippet,
+		rank: terms.every((term) => title.includes(term)) ? 0 : 1,
+	};
+}
+
+/**
+ * Registers knowledge base and article tools.
+ */
+export function registerKnowledgeBaseTools(
+	server: McpServer,
+	client: PylonClient,
+	resolver: Resolver,
+): void {
+	server.tool(
+		'pylon_list_knowledge_bases',
+		'List knowledge bases. Use the IDs with the article tools.',
+		{},
+		withErrorHandling(async () => {
+			const knowledgeBases: KnowledgeBase[] = [];
+			for await (const kb of client.paginate(
+				(page) => client.listKnowledgeBases(page),
+				{ pageSize: MAX_LIST_LIMIT },
+			)) {
+				knowledgeBases.push(kb);
+			}
+			return {
+				content: [
+					{ type: 'text', text: formatKnowledgeBasesAsTable(knowledgeBases) },
+				],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_list_articles',
+		'List articles in a knowledge base (titles only). Use pylon_get_article for the content.',
+		{
+			knowledge_base_id: z.string().describe('The knowledge base ID'),
+			limit: z
+				.number()
+				.min(1)
+				.max(MAX_LIST_LIMIT)
+				.optional()
+				.describe(
+					`Results limit (1-${MAX_LIST_LIMIT}, default ${DEFAULT_LIST_LIMIT})`,
+				),
+			cursor: z.string().optional().describe('Pagination cursor'),
+			...fetchAllParams,
+		},
+		withErrorHandling(
+			async ({ knowledge_base_id, limit, cursor, fetch_all, max_items }) => {
+				const { items, footer, requestIds } = await fetchPages(
+					client,
+					(page) => client.listArticles(knowledge_base_id, page),
+					{
+						limit: limit ?? DEFAULT_LIST_LIMIT,
+						cursor,
+						fetchAll: fetch_all,
+						maxItems: max_items,
+					},
+				);
+
+				const articles = items.map((raw) =>
+					toArticleMinimal(
+						raw as unknown as Record<string, unknown>,
+						requestIds.get(raw.id),
+					),
+				);
+
+				return {
+					content: [
+						{ type: 'text', text: formatArticlesAsTable(articles) + footer },
+					],
+				};
+			},
+		),
+	);
+
+	server.tool(
+		'pylon_search_articles',
+		'Search knowledge base articles by words in their title or body. Articles with every word in the title come first. Use pylon_get_article to read a match.',
+		{
+			query: z.string().min(1).describe('Words to search for'),
+			knowledge_base_id: z
+				.string()
+				.optional()
+				.describe('Only search this knowledge base (default all)'),
+			max_results: z
+				.number()
+				.min(1)
+				.max(MAX_SEARCH_RESULTS)
+				.optional()
+				.describe(
+					`Maximum matches to return (default ${DEFAULT_SEARCH_RESULTS}, max ${MAX_SEARCH_RESULTS})`,
+				),
+		},
+		withErrorHandling(async ({ query, knowledge_base_id, max_results }) => {
+			const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+			const knowledgeBaseIds: string[] = [];
+			if (knowledge_base_id) {
+				knowledgeBaseIds.push(knowledge_base_id);
+			} else {
+				for await (const kb of client.paginate(
+					(page) => client.listKnowledgeBases(page),
+					{ pageSize: MAX_LIST_LIMIT },
+				)) {
+					knowledgeBaseIds.push(kb.id);
+				}
+			}
+
+			const matches: ArticleMatch[] = [];
+			for (const kbId of knowledgeBaseIds) {
+				const { items, requestIds } = await fetchPages(
+					client,
+					(page) => client.listArticles(kbId, page),
+					{
+						limit: MAX_LIST_LIMIT,
+						fetchAll: true,
+						maxItems: MAX_SCANNED_ARTICLES,
+					},
+				);
+				for (const raw of items) {
+					const match = matchArticle(kbId, raw, terms, requestIds.get(raw.id));
+					if (match) {
+						matches.push(match);
+					}
+				}
+			}
+
+			if (matches.length === 0) {
+				return {
+					content: [{ type: 'text', text: `No articles match "${query}".` }],
+				};
+			}
+
+			const limit = max_results ?? DEFAULT_SEARCH_RESULTS;
+			const shown = matches.sort((a, b) => a.rank - b.rank).slice(0, limit);
+			const headers = ['ID', 'Knowledge base', 'Title', 'Published', 'Snippet'];
+			const rows = shown.map((match) => [
+				escapeCell(match.article.id),
+				escapeCell(match.knowledgeBaseId),
+				escapeCell(truncate(match.article.title, MAX_TITLE_LENGTH)),
+				match.article.is_published ? 'yes' : 'draft',
+				escapeCell(match.snippet),
+			]);
+			const table = [
+				`| ${headers.join(' | ')} |`,
+				`|${headers.map(() => '---').join('|')}|`,
+				...rows.map((row) => `| ${row.join(' | ')} |`),
+			].join('\n');
+			const note =
+				matches.length > shown.length
+					? `\n\nShowing ${shown.length} of ${matches.length} matching articles.`
+					: '';
+
+			return { content: [{ type: 'text', text: table + note }] };
+		}),
+	);
+
+	server.tool(
+		'pylon_get_article',
+		'Get a knowledge base article with its body as compact text.',
+		{
+			knowledge_base_id: z.string().describe('The knowledge base ID'),
+			article_id: z.string().describe('The article ID'),
+			max_length: z
+				.number()
+				.min(100)
+				.max(10000)
+				.optional()
+				.describe('Maximum body length to return (default 2000, max 10000)'),
+		},
+		withErrorHandling(async ({ knowledge_base_id, article_id, max_length }) => {
+			const result = await client.getArticle(knowledge_base_id, article_id);
+			const article = toArticleMinimal(
+				result.data as unknown as Record<string, unknown>,
+				result.request_id,
+			);
+			const text = stripHtml(result.data.body_html ?? '');
+			const truncated = truncate(text, max_length ?? 2000);
+
+			const status = article.is_published ? 'Published' : 'Draft';
+			const header = `${article.title} (${article.id})\n${status}${article.url ? ` · ${article.url}` : ''}`;
+			const body = text
+				? `Body (${text.length} chars total, showing ${truncated.length}):\n\n${truncated}`
+				: 'No body content available.';
+
+			return { content: [{ type: 'text', text: `${header}\n\n${body}` }] };
+		}),
+	);
+
+	server.tool(
+		'pylon_create_article_draft',
+		'Create an unpublished (draft) knowledge base article from Markdown, e.g. to document a gap found while answering an issue. A teammate reviews and publishes it in Pylon.',
+		{
+			knowledge_base_id: z.string().describe('The knowledge base ID'),
+			title: z.string().min(1).describe('Article title'),
+			body_markdown: z.string().min(1).describe('Article body in Markdown'),
+			author: z.string().describe('Author: user ID, email, or name'),
+			collection_id: z
+				.string()
+				.optional()
+				.describe('Collection to file the article under'),
+			slug: z.string().optional().describe('URL slug (default from title)'),
+		},
+		withErrorHandling(
+			async ({ knowledge_base_id, body_markdown, author, ...data }) => {
+				const result = await client.createArticle(knowledge_base_id, {
+					...data,
+					body_html: markdownToHtml(body_markdown),
+					author_user_id: await resolver.resolveUser(author),
+					is_published: false,
+				});
+				const article = toArticleMinimal(
+					result.data as unknown as Record<string, unknown>,
+					result.request_id,
+				);
+				return {
+					content: [{ type: 'text', text: JSON.stringify(article, null, 2) }],
+				};
+			},
+		),
+	);
+}
@@ -0,0 +1,258 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { resolveAttachmentUrls } from '../attachments.js';
+import { markdownToHtml } from '../markdown.js';
+import type { PylonClient } from '../pylon-client.js';
+import { type MessageMinimal, toMessageMinimal } from '../schemas.js';
+import {
+	attachmentsParam,
+	fetchPages,
+	MAX_LIST_LIMIT,
+	withErrorHandling,
+} from './shared.js';
+
+const DEFAULT_MAX_MESSAGES = 50;
+const MAX_MESSAGES = 200;
+// Upper bound on messages read from a single thread before filtering
+const MAX_THREAD_MESSAGES = 2000;
+
+/**
+ * Formats messages as a chronological transcript with visibility markers.
+ */
+function formatMessagesAsTranscript(messages: MessageMinimal[]): string {
+	return messages
+		.map((message) => {
+			const visibility = message.is_private ? 'INTERNAL' : 'PUBLIC';
+			const header = `[${message.timestamp}] ${visibility} · ${message.author_name} (${message.author_type})`;
+			return `${header}\n${message.text || '(no text)'}`;
+		})
+		.join('\n\n');
+}
+
+/**
+ * Finds the most recent customer-visible message on an issue, to reply to.
+ */
+async function findLatestPublicMessageId(
+	client: PylonClient,
+	issueId: string,
+): Promise<string> {
+	const { items } = await fetchPages(
+		client,
+		(page) => client.listIssueMessages(issueId, page),
+		{ limit: MAX_LIST_LIMIT, fetchAll: true, maxItems: MAX_THREAD_MESSAGES },
+	);
+	const latest = items
+		.filter((message) => !message.is_private)
+		.sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))[0];
+	if (!latest) {
+		throw new Error(
+			`Issue ${issueId} has no public messages to reply to. Pass message_id explicitly.`,
+		);
+	}
+	return latest.id;
+}
+
+/**
+ * Registers message tools.
+ */
+export function registerMessageTools(
+	server: McpServer,
+	client: PylonClient,
+	attachmentRoot?: string,
+): void {
+	server.tool(
+		'pylon_get_issue_messages',
+		'Get the conversation on an issue as a chronological transcript. Each message is marked PUBLIC (visible to the customer) or INTERNAL (internal note) with its author.',
+		{
+			issue_id: z.string().describe('The issue ID'),
+			visibility: z
+				.enum(['all', 'public', 'internal'])
+				.optional()
+				.describe(
+					'Only public messages, only internal notes, or all (default all)',
+				),
+			since: z
+				.string()
+				.optional()
+				.describe(
+					'Only messages at or after this time, RFC3339 (e.g., 2024-01-01T00:00:00Z)',
+				),
+			max_messages: z
+				.number()
+				.min(1)
+				.max(MAX_MESSAGES)
+				.optional()
+				.describe(
+					`Maximum messages to return, most recent kept (1-${MAX_MESSAGES}, default ${DEFAULT_MAX_MESSAGES})`,
+				),
+		},
+		withErrorHandling(async ({ issue_id, visibility, since, max_messages }) => {
+			const sinceMs = since === undefined ? undefined : Date.parse(since);
+			if (sinceMs !== undefined && Number.isNaN(sinceMs)) {
+				throw new Error(
+					`Invalid since format: ${since}. Use RFC3339 format (e.g., 2024-01-01T00:00:00Z)`,
+				);
+			}
+
+			const { items, requestIds } = await fetchPages(
+				client,
+				(page) => client.listIssueMessages(issue_id, page),
+				{
+					limit: MAX_LIST_LIMIT,
+					fetchAll: true,
+					maxItems: MAX_THREAD_MESSAGES,
+				},
+			);
+
+			const matching = items
+				.map((raw) =>
+					toMessageMinimal(
+						raw as unknown as Record<string, unknown>,
+						requestIds.get(raw.id),
+					),
+				)
+				.filter(
+					(message) =>
+						(visibility === 'public' ? !message.is_private : true) &&
+						(visibility === 'internal' ? message.is_private : true) &&
+						(sinceMs === undefined || Date.parse(message.timestamp) >= sinceMs),
+				)
+				.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+			if (matching.length === 0) {
+				return {
+					content: [{ type: 'text', text: 'No messages found.' }],
+				};
+			}
+
+			const maxMessages = max_messages ?? DEFAULT_MAX_MESSAGES;
+			const messages = matching.slice(-maxMessages);
+			const notes: string[] = [];
+			if (messages.length < matching.length) {
+				notes.push(
+					`Showing the latest ${messages.length} of ${matching.length} matching messages. Use since or raise max_messages to see more.`,
+				);
+			}
+			if (items.length >= MAX_THREAD_MESSAGES) {
+				notes.push(
+					`Only the first ${MAX_THREAD_MESSAGES} messages of this thread were read.`,
+				);
+			}
+
+			const transcript = formatMessagesAsTranscript(messages);
+			const footer = notes.length > 0 ? `\n\n${notes.join('\n')}` : '';
+			return {
+				content: [{ type: 'text', text: transcript + footer }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_reply_to_issue',
+		'Send a customer-visible reply on an issue. The customer sees it (it may be emailed to them), so show the draft to the user first and only send with confirm_send: true once they approve. Use pylon_add_internal_note for anything the customer should not see.',
+		{
+			issue_id: z.string().describe('The issue ID'),
+			body_markdown: z
+				.string()
+				.min(1)
+				.describe('Reply body in Markdown; converted to HTML'),
+			message_id: z
+				.string()
+				.optional()
+				.describe(
+					'Message to reply to (defaults to the latest public message on the issue)',
+				),
+			attachment_urls: attachmentsParam,
+			confirm_send: z
+				.boolean()
+				.optional()
+				.describe(
+					'Must be true to send. Confirms the user approved sending this reply to the customer.',
+				),
+		},
+		withErrorHandling(
+			async ({
+				issue_id,
+				body_markdown,
+				message_id,
+				attachment_urls,
+				confirm_send,
+			}) => {
+				if (confirm_send !== true) {
+					throw new Error(
+						'Reply not sent: replies are visible to the customer. Show the draft to the user and call again with confirm_send: true once they approve, or use pylon_add_internal_note instead.',
+					);
+				}
+				const result = await client.replyToIssue(issue_id, {
+					body_html: markdownToHtml(body_markdown),
+					message_id:
+						message_id ?? (await findLatestPublicMessageId(client, issue_id)),
+					attachment_urls: await resolveAttachmentUrls(
+						client,
+						attachment_urls,
+						attachmentRoot,
+					),
+				});
+				const message = toMessageMinimal(
+					result.data as unknown as Record<string, unknown>,
+					result.request_id,
+				);
+				return {
+					content: [{ type: 'text', text: JSON.stringify(message, null, 2) }],
+				};
+			},
+		),
+	);
+
+	server.tool(
+		'pylon_add_internal_note',
+		'Post an internal note on an issue. Notes are only visible to the team, never to the customer.',
+		{
+			issue_id: z.string().describe('The issue ID'),
+			body_markdown: z
+				.string()
+				.min(1)
+				.describe('Note body in Markdown; converted to HTML'),
+			thread_id: z
+				.string()
+				.optional()
+				.describe('Internal thread to post in (defaults to a new thread)'),
+			attachment_urls: attachmentsParam,
+		},
+		withErrorHandling(
+			async ({ issue_id, body_markdown, thread_id, attachment_urls }) => {
+				const result = await client.addInternalNote(issue_id, {
+					body_html: markdownToHtml(body_markdown),
+					thread_id,
+					attachment_urls: await resolveAttachmentUrls(
+						client,
+						attachment_urls,
+						attachmentRoot,
+					),
+				});
+				const message = toMessageMinimal(
+					result.data as unknown as Record<string, unknown>,
+					result.request_id,
+				);
+				return {
+					content: [{ type: 'text', text: JSON.stringify(message, null, 2) }],
+				};
+			},
+		),
+	);
+
+	server.tool(
+		'pylon_redact_message',
+		'Redact a message from an issue',
+		{
+			issue_id: z.string().describe('The issue ID'),
+			message_id: z.string().describe('The message ID to redact'),
+		},
+		withErrorHandling(async ({ issue_id, message_id }) => {
+			const result = await client.redactMessage(issue_id, message_id);
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result.data, null, 2) }],
+			};
+		}),
+	);
+}
@@ -0,0 +1,23 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { PylonClient } from '../pylon-client.js';
+import { withErrorHandling } from './shared.js';
+
+/**
+ * Registers organization tools.
+ */
+export function registerOrganizationTools(
+	server: McpServer,
+	client: PylonClient,
+): void {
+	server.tool(
+		'pylon_get_organization',
+		'Get information about your Pylon organization',
+		{},
+		withErrorHandling(async () => {
+			const result = await client.getMe();
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result.data, null, 2) }],
+			};
+		}),
+	);
+}
@@ -0,0 +1,352 @@
+/**
+ * Helpers shared by the tool modules: output limits, table formatting,
+ * pagination and error handling.
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import {
+	type FilterConditions,
+	type FilterPlan,
+	runFilterPlan,
+} from '../compound-filters.js';
+import { PylonApiError } from '../errors.js';
+import type { FilterObjectType } from '../filter-fields.js';
+import {
+	describeDroppedOperators,
+	findDroppedFilterOperators,
+	type Issue,
+	type PaginatedResponse,
+	type PaginationParams,
+	type PylonClient,
+	type TimeWindowOptions,
+	type TimeWindowResult,
+} from '../pylon-client.js';
+
+export const DEFAULT_ISSUE_LIMIT = 25;
+export const DEFAULT_LIST_LIMIT = 50;
+export const MAX_LIST_LIMIT = 100;
+export const MAX_TITLE_LENGTH = 60;
+export const MAX_NAME_LENGTH = 40;
+const DEFAULT_FETCH_ALL_MAX_ITEMS = 500;
+const MAX_FETCH_ALL_ITEMS = 2000;
+
+/**
+ * Escapes pipe characters in markdown table cells.
+ */
+export function escapeCell(value: string | undefined | null): string {
+	if (!value) return '';
+	return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Truncates a string to a maximum length.
+ */
+export function truncate(
+	value: string | undefined | null,
+	maxLength: number,
+): string {
+	if (!value) return '';
+	if (value.length <= maxLength) return value;
+	return `${value.slice(0, maxLength - 3)}...`;
+}
+
+/**
+ * Strips HTML tags and collapses whitespace into compact single-line text.
+ */
+export function stripHtml(html: string): string {
+	return html
+		.replace(/<[^>]*>/g, ' ')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+/**
+ * Shared input schema for tools that can walk every page server-side.
+ */
+export const fetchAllParams = {
+	fetch_all: z
+		.boolean()
+		.optional()
+		.describe(
+			'Follow pagination server-side and return all results in one table instead of a single page',
+		),
+	max_items: z
+		.number()
+		.min(1)
+		.max(MAX_FETCH_ALL_ITEMS)
+		.optional()
+		.describe(
+			`Maximum results when fetch_all is true (1-${MAX_FETCH_ALL_ITEMS}, default ${DEFAULT_FETCH_ALL_MAX_ITEMS})`,
+		),
+};
+
+export interface PagedItems<T> {
+	items: T[];
+	/** Pagination state for the model, appended after the table */
+	footer: string;
+	/** request_id of the response each item came from, by item id */
+	requestIds: Map<string, string>;
+	/** Whether fetching all results stopped at the max_items cap */
+	truncated?: boolean;
+}
+
+/**
+ * Fetches a single page, or with fetchAll walks every cursor and dedupes by id.
+ * Returns the items plus a footer describing pagination state for the model.
+ */
+export async function fetchPages<T extends { id: string }>(
+	client: PylonClient,
+	fetchPage: (params: PaginationParams) => Promise<PaginatedResponse<T>>,
+	options: {
+		limit: number;
+		cursor?: string;
+		fetchAll?: boolean;
+		maxItems?: number;
+	},
+): Promise<PagedItems<T>> {
+	if (!options.fetchAll) {
+		const result = await fetchPage({
+			limit: options.limit,
+			cursor: options.cursor,
+		});
+		const footer = result.pagination?.has_next_page
+			? `\n\nMore results available. Use cursor: "${result.pagination.cursor}"`
+			: '';
+		const items = result.data || [];
+		return {
+			items,
+			footer,
+			requestIds: new Map(items.map((item) => [item.id, result.request_id])),
+		};
+	}
+
+	const maxItems = options.maxItems ?? DEFAULT_FETCH_ALL_MAX_ITEMS;
+	const byId = new Map<string, T>();
+	const requestIds = new Map<string, string>();
+	const trackedFetchPage = async (params: PaginationParams) => {
+		const result = await fetchPage(params);
+		for (const item of result.data ?? []) {
+			requestIds.set(item.id, result.request_id);
+		}
+		return result;
+	};
+	let truncated = false;
+	for await (const item of client.paginate(trackedFetchPage, {
+		pageSize: MAX_LIST_LIMIT,
+		cursor: options.cursor,
+	})) {
+		if (byId.has(item.id)) {
+			continue;
+		}
+		if (byId.size >= maxItems) {
+			truncated = true;
+			break;
+		}
+		byId.set(item.id, item);
+	}
+
+	const footer = truncated
+		? `\n\nResults truncated: showing the first ${maxItems} results because the max_items cap was reached. More results exist; narrow the filter or raise max_items.`
+		: `\n\nAll ${byId.size} results returned.`;
+	return { items: [...byId.values()], footer, requestIds, truncated };
+}
+
+/**
+ * Shared input schema for custom field values on create/update tools.
+ */
+export const customFieldsParam = z
+	.record(
+		z.string(),
+		z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]),
+	)
+	.optional()
+	.describe(
+		'Custom field values by slug, e.g. {"severity": "sev1"}. Use pylon_list_custom_fields for slugs, types and options; multiselect fields take a list.',
+	);
+
+/**
+ * Shared input schema for attachments on create/reply tools.
+ */
+export const attachmentsParam = z
+	.array(z.string())
+	.optional()
+	.describe(
+		'Files to attach: URLs (e.g. from pylon_upload_attachment) or absolute paths of local files inside the attachment folder, which are uploaded first',
+	);
+
+/**
+ * Shared input schema for incremental tag changes on update tools.
+ */
+export const tagChangeParams = {
+	add_tags: z
+		.array(z.string())
+		.optional()
+		.describe(
+			'Tags to add, keeping existing tags. Must be existing tags (see pylon_list_tags)',
+		),
+	remove_tags: z
+		.array(z.string())
+		.optional()
+		.describe('Tags to remove, keeping the others'),
+};
+
+export const timeWindowParams = {
+	parallel: z
+		.boolean()
+		.optional()
+		.describe(
+			'For time ranges over 30 days, query the 30-day windows in parallel (default: sequential)',
+		),
+};
+
+/**
+ * Fetches issues across ≤30-day windows for time ranges Pylon cannot query at once.
+ * Walks the windows oldest first until limit results are found, or max_items
+ * with fetchAll. Cursors can't span windows, so they are rejected.
+ */
+export async function fetchTimeWindows(
+	fetchWindows: (
+		options: TimeWindowOptions,
+	) => Promise<TimeWindowResult<Issue>>,
+	options: {
+		limit: number;
+		cursor?: string;
+		fetchAll?: boolean;
+		maxItems?: number;
+		parallel?: boolean;
+	},
+): Promise<PagedItems<Issue>> {
+	if (options.cursor) {
+		throw new Error(
+			'cursor is not supported for time ranges over 30 days, which are split into 30-day windows. Pass fetch_all instead, or narrow the range to 30 days.',
+		);
+	}
+	const maxItems = options.fetchAll
+		? (options.maxItems ?? DEFAULT_FETCH_ALL_MAX_ITEMS)
+		: options.limit;
+	const result = await fetchWindows({
+		parallel: options.parallel,
+		maxItems,
+		pageSize: Math.min(maxItems + 1, MAX_LIST_LIMIT),
+	});
+	let footer = `\n\nAll ${result.data.length} results returned from ${result.windows} 30-day windows, oldest first.`;
+	if (result.truncated) {
+		footer = options.fetchAll
+			? `\n\nResults truncated: showing ${maxItems} results from the earliest of ${result.windows} 30-day windows because the max_items cap was reached. Narrow the time range or raise max_items.`
+			: `\n\nShowing ${maxItems} results from the earliest of ${result.windows} 30-day windows. Pass fetch_all to see more, or narrow the time range.`;
+	}
+	return {
+		items: result.data,
+		footer,
+		requestIds: result.requestIds,
+		truncated: result.truncated,
+	};
+}
+
+/**
+ * Orders combined search results newest first by created_at, then by id, so
+ * a page doesn't depend on which query returned an item first.
+ */
+function compareNewestFirst(a: { id: string }, b: { id: string }): number {
+	const createdAt = (item: { id: string }) =>
+		String((item as Record<string, unknown>)['created_at'] ?? '');
+	return createdAt(b).localeCompare(createdAt(a)) || a.id.localeCompare(b.id);
+}
+
+/**
+ * Runs a search whose filter needed several queries (see compound-filters.ts)
+ * and returns one page of the combined results, newest first, or up to
+ * max_items with fetch_all. Every query fetches up to max_items so the set
+ * logic sees complete results where possible.
+ * @param fetchQuery - Fetches every result of one query, up to maxItems
+ */
+export async function fetchFilterPlan<T extends { id: string }>(
+	plan: FilterPlan,
+	fetchQuery: (
+		conditions: FilterConditions,
+		maxItems: number,
+	) => Promise<PagedItems<T>>,
+	options: {
+		limit: number;
+		cursor?: string;
+		fetchAll?: boolean;
+		maxItems?: number;
+	},
+): Promise<PagedItems<T>> {
+	if (options.cursor) {
+		throw new Error(
+			'cursor is not supported with and/or/not filters; pass fetch_all instead.',
+		);
+	}
+	const maxItems = options.maxItems ?? DEFAULT_FETCH_ALL_MAX_ITEMS;
+	const requestIds = new Map<string, string>();
+	const result = await runFilterPlan(plan, async (conditions) => {
+		const page = await fetchQuery(conditions, maxItems);
+		for (const [id, requestId] of page.requestIds) {
+			requestIds.set(id, requestId);
+		}
+		return page;
+	});
+
+	const items = [...result.items]
+		.sort(compareNewestFirst)
+		.slice(0, options.fetchAll ? maxItems : options.limit);
+	let footer = `\n\n${result.items.length} results matched, combined from ${result.queries} searches.`;
+	if (items.length < result.items.length) {
+		footer += ` Showing the first ${items.length}; pass fetch_all to see more.`;
+	}
+	if (result.truncated) {
+		footer += ` Some searches stopped at max_items (${maxItems}), so results may be incomplete; narrow the filter or raise max_items.`;
+	}
+	return { items, footer, requestIds, truncated: result.truncated };
+}
+
+/**
+ * Returns a warning to put above search results when the filter uses fields
+ * or operators that were dropped before sending, or '' when there are none.
+ */
+export function filterWarning(
+	objectType: FilterObjectType,
+	filter: object,
+): string {
+	const dropped = findDroppedFilterOperators(objectType, filter);
+	if (dropped.length === 0) {
+		return '';
+	}
+	return `Warning: ignored unsupported filter fields or operators, so these results are less filtered than requested:\n${describeDroppedOperators(dropped)}\n\n`;
+}
+
+/**
+ * Converts a thrown error into an MCP tool error result.
+ * PylonApiError messages are already written to be actionable (e.g. "Issue 1234 not found"),
+ * so the model can recover instead of the whole turn failing.
+ */
+function toolErrorResult(error: unknown): CallToolResult {
+	const message = error instanceof Error ? error.message : String(error);
+	if (error instanceof PylonApiError) {
+		console.error(
+			`[pylon-mcp] ${error.name}: ${error.method} ${error.path} -> ${error.status}`,
+			error.requestId ? `(request_id: ${error.requestId})` : '',
+		);
+	}
+	return {
+		content: [{ type: 'text', text: `Error: ${message}` }],
+		isError: true,
+	};
+}
+
+/**
+ * Wraps a tool handler so that failures are returned as tool errors.
+ */
+export function withErrorHandling<Args extends unknown[]>(
+	handler: (...args: Args) => Promise<CallToolResult>,
+): (...args: Args) => Promise<CallToolResult> {
+	return async (...args) => {
+		try {
+			return await handler(...args);
+		} catch (error) {
+			return toolErrorResult(error);
+		}
+	};
+}
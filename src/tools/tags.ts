@@ -0,0 +1,150 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { PylonClient } from '../pylon-client.js';
+import type { Resolver } from '../resolver.js';
+import {
+	DEFAULT_LIST_LIMIT,
+	escapeCell,
+	fetchAllParams,
+	fetchPages,
+	MAX_LIST_LIMIT,
+	withErrorHandling,
+} from './shared.js';
+
+/**
+ * Formats tags as a markdown table for compact, token-efficient output.
+ */
+function formatTagsAsTable(tags: Record<string, unknown>[]): string {
+	if (tags.length === 0) {
+		return 'No tags found.';
+	}
+
+	const headers = ['ID', 'Value', 'Type', 'Color'];
+	const rows = tags.map((tag) => [
+		escapeCell(tag['id'] as string),
+		escapeCell(tag['value'] as string),
+		escapeCell(tag['object_type'] as string),
+		escapeCell((tag['hex_color'] as string) || '-'),
+	]);
+
+	const headerRow = `| ${headers.join(' | ')} |`;
+	const separatorRow = `|${headers.map(() => '---').join('|')}|`;
+	const dataRows = rows.map((row) => `| ${row.join(' | ')} |`).join('\n');
+
+	return `${headerRow}\n${separatorRow}\n${dataRows}`;
+}
+
+/**
+ * Registers tag tools.
+ */
+export function registerTagTools(
+	server: McpServer,
+	client: PylonClient,
+	resolver: Resolver,
+): void {
+	server.tool(
+		'pylon_list_tags',
+		'List all tags in Pylon.',
+		{
+			limit: z
+				.number()
+				.min(1)
+				.max(MAX_LIST_LIMIT)
+				.optional()
+				.describe(
+					`Results limit (1-${MAX_LIST_LIMIT}, default ${DEFAULT_LIST_LIMIT})`,
+				),
+			cursor: z.string().optional().describe('Pagination cursor'),
+			...fetchAllParams,
+		},
+		withErrorHandling(async ({ limit, cursor, fetch_all, max_items }) => {
+			const { items, footer } = await fetchPages(
+				client,
+				(page) => client.listTags(page),
+				{
+					limit: limit ?? DEFAULT_LIST_LIMIT,
+					cursor,
+					fetchAll: fetch_all,
+					maxItems: max_items,
+				},
+			);
+
+			const table = formatTagsAsTable(
+				items as unknown as Record<string, unknown>[],
+			);
+
+			return {
+				content: [{ type: 'text', text: table + footer }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_get_tag',
+		'Get a specific tag by ID',
+		{
+			id: z.string().describe('The tag ID'),
+		},
+		withErrorHandling(async ({ id }) => {
+			const result = await client.getTag(id);
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result.data, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_create_tag',
+		'Create a new tag',
+		{
+			value: z.string().describe('The tag name/value'),
+			object_type: z
+				.enum(['account', 'issue', 'contact'])
+				.describe('Type of object this tag applies to'),
+			hex_color: z
+				.string()
+				.optional()
+				.describe('Hex color code for the tag (e.g., #FF5733)'),
+		},
+		withErrorHandling(async (params) => {
+			const result = await client.createTag(params);
+			// So add_tags sees the new tag right away
+			resolver.clear();
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result.data, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_update_tag',
+		'Update an existing tag',
+		{
+			id: z.string().describe('The tag ID'),
+			value: z.string().optional().describe('Updated tag name'),
+			hex_color: z.string().optional().describe('Updated hex color'),
+		},
+		withErrorHandling(async ({ id, ...data }) => {
+			const result = await client.updateTag(id, data);
+			resolver.clear();
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result.data, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_delete_tag',
+		'Delete a tag',
+		{
+			id: z.string().describe('The tag ID to delete'),
+		},
+		withErrorHandling(async ({ id }) => {
+			const result = await client.deleteTag(id);
+			resolver.clear();
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+			};
+		}),
+	);
+}
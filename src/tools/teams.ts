@@ -0,0 +1,284 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { PylonClient, Team } from '../pylon-client.js';
+import type { Resolver } from '../resolver.js';
+import { toTeamMinimal } from '../schemas.js';
+import {
+	DEFAULT_LIST_LIMIT,
+	escapeCell,
+	fetchAllParams,
+	fetchPages,
+	MAX_LIST_LIMIT,
+	MAX_NAME_LENGTH,
+	truncate,
+	withErrorHandling,
+} from './shared.js';
+
+/**
+ * Formats teams as a markdown table for compact, token-efficient output.
+ */
+function formatTeamsAsTable(teams: Record<string, unknown>[]): string {
+	if (teams.length === 0) {
+		return 'No teams found.';
+	}
+
+	const headers = ['ID', 'Name', 'Members'];
+	const rows = teams.map((team) => {
+		// Teams are passed through toTeamMinimal, which replaces users with member_count
+		const memberCount = (team['member_count'] as number | undefined) ?? 0;
+		const memberPreview =
+			memberCount > 0
+				? `${memberCount} member${memberCount !== 1 ? 's' : ''}`
+				: '-';
+		return [
+			escapeCell(team['id'] as string),
+			escapeCell(truncate(team['name'] as string, MAX_NAME_LENGTH)),
+			memberPreview,
+		];
+	});
+
+	const headerRow = `| ${headers.join(' | ')} |`;
+	const separatorRow = `|${headers.map(() => '---').join('|')}|`;
+	const dataRows = rows.map((row) => `| ${row.join(' | ')} |`).join('\n');
+
+	return `${headerRow}\n${separatorRow}\n${dataRows}`;
+}
+
+function formatMembers(users: Team['users']): string {
+	return users.length > 0
+		? users.map((user) => `${user.email} (${user.id})`).join(', ')
+		: '(none)';
+}
+
+/**
+ * Describes a membership change as a before/after diff.
+ * @param ignored - Requested users that needed no change, e.g. already members
+ */
+function formatMembershipDiff(
+	team: Team,
+	before: Team['users'],
+	after: Team['users'],
+	ignored: { label: string; ids: string[] },
+): string {
+	const beforeIds = new Set(before.map((user) => user.id));
+	const afterIds = new Set(after.map((user) => user.id));
+	const added = after.filter((user) => !beforeIds.has(user.id));
+	const removed = before.filter((user) => !afterIds.has(user.id));
+
+	const lines = [
+		`Team ${team.name} (${team.id}): ${before.length} → ${after.length} member${after.length === 1 ? '' : 's'}`,
+	];
+	if (added.length > 0) {
+		lines.push(`Added: ${formatMembers(added)}`);
+	}
+	if (removed.length > 0) {
+		lines.push(`Removed: ${formatMembers(removed)}`);
+	}
+	if (added.length === 0 && removed.length === 0) {
+		lines.push('No changes.');
+	}
+	if (ignored.ids.length > 0) {
+		lines.push(`${ignored.label}: ${ignored.ids.join(', ')}`);
+	}
+	lines.push(
+		`Before: ${formatMembers(before)}`,
+		`After: ${formatMembers(after)}`,
+	);
+	return lines.join('\n');
+}
+
+/**
+ * Registers team tools.
+ */
+export function registerTeamTools(
+	server: McpServer,
+	client: PylonClient,
+	resolver: Resolver,
+): void {
+	server.tool(
+		'pylon_list_teams',
+		'List all teams in Pylon.',
+		{
+			limit: z
+				.number()
+				.min(1)
+				.max(MAX_LIST_LIMIT)
+				.optional()
+				.describe(
+					`Results limit (1-${MAX_LIST_LIMIT}, default ${DEFAULT_LIST_LIMIT})`,
+				),
+			cursor: z.string().optional().describe('Pagination cursor'),
+			...fetchAllParams,
+		},
+		withErrorHandling(async ({ limit, cursor, fetch_all, max_items }) => {
+			const { items, footer, requestIds } = await fetchPages(
+				client,
+				(page) => client.listTeams(page),
+				{
+					limit: limit ?? DEFAULT_LIST_LIMIT,
+					cursor,
+					fetchAll: fetch_all,
+					maxItems: max_items,
+				},
+			);
+
+			// Transform to minimal format
+			const teams = items.map((raw) =>
+				toTeamMinimal(
+					raw as unknown as Record<string, unknown>,
+					requestIds.get(raw.id),
+				),
+			);
+
+			const table = formatTeamsAsTable(
+				teams as unknown as Record<string, unknown>[],
+			);
+
+			return {
+				content: [{ type: 'text', text: table + footer }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_get_team',
+		'Get a specific team by ID',
+		{
+			id: z.string().describe('The team ID'),
+		},
+		withErrorHandling(async ({ id }) => {
+			const result = await client.getTeam(id);
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result.data, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_create_team',
+		'Create a new team',
+		{
+			name: z.string().optional().describe('Team name'),
+			user_ids: z
+				.array(z.string())
+				.optional()
+				.describe('User IDs to add to the team'),
+		},
+		withErrorHandling(async (params) => {
+			const result = await client.createTeam(params);
+			// The new team must resolve by name right away
+			resolver.clear();
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result.data, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_update_team',
+		'Update an existing team. user_ids replaces the whole membership; use pylon_update_team_members to add or remove people.',
+		{
+			id: z.string().describe('The team ID'),
+			name: z.string().optional().describe('Updated team name'),
+			user_ids: z
+				.array(z.string())
+				.optional()
+				.describe('Updated list of user IDs'),
+		},
+		withErrorHandling(async ({ id, ...data }) => {
+			const result = await client.updateTeam(id, data);
+			// A renamed team must resolve by its new name
+			resolver.clear();
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result.data, null, 2) }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_update_team_members',
+		'Add or remove team members without replacing the rest of the team. Reports the membership before and after the change.',
+		{
+			id: z.string().describe('The team: ID or name'),
+			user_ids: z
+				.array(z.string())
+				.min(1)
+				.describe('Users to add or remove: IDs, emails, or names'),
+			operation: z
+				.enum(['add', 'remove'])
+				.optional()
+				.describe('Operation to perform (default: add)'),
+		},
+		withErrorHandling(async ({ id, user_ids, operation }) => {
+			const [teamId, userIds] = await Promise.all([
+				resolver.resolveTeam(id),
+				Promise.all(user_ids.map((ref) => resolver.resolveUser(ref))),
+			]);
+			// Read the current membership right before writing, never from cache
+			const { data: team } = await client.getTeam(teamId);
+			const before = team.users ?? [];
+			const memberIds = new Set(before.map((user) => user.id));
+			const requested = [...new Set(userIds)];
+
+			const ignored =
+				operation === 'remove'
+					? {
+							label: 'Not members',
+							ids: requested.filter((userId) => !memberIds.has(userId)),
+						}
+					: {
+							label: 'Already members',
+							ids: requested.filter((userId) => memberIds.has(userId)),
+						};
+			const nextIds =
+				operation === 'remove'
+					? [...memberIds].filter((userId) => !requested.includes(userId))
+					: [
+							...memberIds,
+							...requested.filter((userId) => !memberIds.has(userId)),
+						];
+
+			if (ignored.ids.length === requested.length) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: formatMembershipDiff(team, before, before, ignored),
+						},
+					],
+				};
+			}
+
+			const result = await client.updateTeam(teamId, { user_ids: nextIds });
+			return {
+				content: [
+					{
+						type: 'text',
+						text: formatMembershipDiff(
+							team,
+							before,
+							result.data.users ?? [],
+							ignored,
+						),
+					},
+				],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_delete_team',
+		'Delete a team',
+		{
+			id: z.string().describe('The team to delete: ID or name'),
+		},
+		withErrorHandling(async ({ id }) => {
+			const result = await client.deleteTeam(await resolver.resolveTeam(id));
+			// The deleted team must no longer resolve by name
+			resolver.clear();
+			return {
+				content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+			};
+		}),
+	);
+}
@@ -0,0 +1,132 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { PylonClient, TicketForm } from '../pylon-client.js';
+import type { Resolver } from '../resolver.js';
+import {
+	DEFAULT_LIST_LIMIT,
+	escapeCell,
+	fetchAllParams,
+	fetchPages,
+	MAX_LIST_LIMIT,
+	MAX_NAME_LENGTH,
+	truncate,
+	withErrorHandling,
+} from './shared.js';
+
+/**
+ * Formats ticket forms as a markdown table for compact, token-efficient output.
+ */
+function formatTicketFormsAsTable(forms: TicketForm[]): string {
+	if (forms.length === 0) {
+		return 'No ticket forms found.';
+	}
+
+	const headers = ['ID', 'Name', 'Public', 'Required fields'];
+	const rows = forms.map((form) => [
+		escapeCell(form.id),
+		escapeCell(truncate(form.name, MAX_NAME_LENGTH)),
+		form.is_public ? 'yes' : 'no',
+		escapeCell(
+			form.fields
+				.filter((field) => field.required)
+				.map((field) => field.slug)
+				.join(', ') || '-',
+		),
+	]);
+
+	const headerRow = `| ${headers.join(' | ')} |`;
+	const separatorRow = `|${headers.map(() => '---').join('|')}|`;
+	const dataRows = rows.map((row) => `| ${row.join(' | ')} |`).join('\n');
+
+	return `${headerRow}\n${separatorRow}\n${dataRows}`;
+}
+
+/**
+ * Formats one ticket form with a table of its fields.
+ */
+function formatTicketForm(form: TicketForm): string {
+	const lines = [`${form.name} (${form.id})`];
+	if (form.description) {
+		lines.push(form.description);
+	}
+	if (form.url) {
+		lines.push(`URL: ${form.url}`);
+	}
+	if (form.fields.length === 0) {
+		return `${lines.join('\n')}\n\nThis form has no fields.`;
+	}
+
+	const headers = ['Slug', 'Label', 'Type', 'Required'];
+	const rows = form.fields.map((field) => [
+		escapeCell(field.slug),
+		escapeCell(field.label),
+		escapeCell(field.type ?? '-'),
+		field.required ? 'yes' : 'no',
+	]);
+
+	const headerRow = `| ${headers.join(' | ')} |`;
+	const separatorRow = `|${headers.map(() => '---').join('|')}|`;
+	const dataRows = rows.map((row) => `| ${row.join(' | ')} |`).join('\n');
+
+	return `${lines.join('\n')}\n\n${headerRow}\n${separatorRow}\n${dataRows}`;
+}
+
+/**
+ * Registers ticket form tools.
+ */
+export function registerTicketFormTools(
+	server: McpServer,
+	client: PylonClient,
+	resolver: Resolver,
+): void {
+	server.tool(
+		'pylon_list_ticket_forms',
+		'List ticket forms and the fields each requires. Pass a form to pylon_create_issue via ticket_form_id.',
+		{
+			limit: z
+				.number()
+				.min(1)
+				.max(MAX_LIST_LIMIT)
+				.optional()
+				.describe(
+					`Results limit (1-${MAX_LIST_LIMIT}, default ${DEFAULT_LIST_LIMIT})`,
+				),
+			cursor: z.string().optional().describe('Pagination cursor'),
+			...fetchAllParams,
+		},
+		withErrorHandling(async ({ limit, cursor, fetch_all, max_items }) => {
+			const { items, footer } = await fetchPages(
+				client,
+				(page) => client.listTicketForms(page),
+				{
+					limit: limit ?? DEFAULT_LIST_LIMIT,
+					cursor,
+					fetchAll: fetch_all,
+					maxItems: max_items,
+				},
+			);
+
+			return {
+				content: [
+					{ type: 'text', text: formatTicketFormsAsTable(items) + footer },
+				],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_get_ticket_form',
+		'Get a ticket form and its fields, including which are required. Custom field slugs are set via custom_fields on pylon_create_issue.',
+		{
+			id: z.string().describe('The ticket form: ID or name'),
+		},
+		withErrorHandling(async ({ id }) => {
+			const result = await client.getTicketForm(
+				await resolver.resolveTicketForm(id),
+			);
+			return {
+				content: [{ type: 'text', text: formatTicketForm(result.data) }],
+			};
+		}),
+	);
+}
@@ -0,0 +1,164 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { PylonClient } from '../pylon-client.js';
+import type { Resolver } from '../resolver.js';
+import { toUserMinimal, type UserMinimal } from '../schemas.js';
+import {
+	DEFAULT_LIST_LIMIT,
+	escapeCell,
+	fetchAllParams,
+	fetchPages,
+	MAX_LIST_LIMIT,
+	MAX_NAME_LENGTH,
+	truncate,
+	withErrorHandling,
+} from './shared.js';
+
+/**
+ * Formats users as a markdown table for compact, token-efficient output.
+ */
+function formatUsersAsTable(users: UserMinimal[]): string {
+	if (users.length === 0) {
+		return 'No users found.';
+	}
+
+	const headers = ['ID', 'Name', 'Email'];
+	const rows = users.map((user) => [
+		escapeCell(user.id),
+		escapeCell(truncate(user.name, MAX_NAME_LENGTH)),
+		escapeCell(user.email),
+	]);
+
+	const headerRow = `| ${headers.join(' | ')} |`;
+	const separatorRow = `|${headers.map(() => '---').join('|')}|`;
+	const dataRows = rows.map((row) => `| ${row.join(' | ')} |`).join('\n');
+
+	return `${headerRow}\n${separatorRow}\n${dataRows}`;
+}
+
+/**
+ * Finds users by exact email (via search), or by ID or partial name/email
+ * (by scanning the resolver's cached directory). Closer matches come first.
+ */
+async function findUsers(
+	client: PylonClient,
+	resolver: Resolver,
+	query: string,
+): Promise<UserMinimal[]> {
+	const needle = query.trim().toLowerCase();
+
+	if (needle.includes('@')) {
+		const result = await client.searchUsers({ email: { equals: needle } });
+		if (result.data.length > 0) {
+			return result.data.map((raw) =>
+				toUserMinimal(
+					raw as unknown as Record<string, unknown>,
+					result.request_id,
+				),
+			);
+		}
+	}
+
+	const rank = (user: UserMinimal): number => {
+		const name = (user.name ?? '').toLowerCase();
+		const email = user.email.toLowerCase();
+		if (user.id === query.trim() || name === needle || email === needle) {
+			return 0;
+		}
+		if (name.startsWith(needle) || name.split(/\s+/).includes(needle)) {
+			return 1;
+		}
+		if (name.includes(needle) || email.includes(needle)) {
+			return 2;
+		}
+		return -1;
+	};
+
+	return (await resolver.users())
+		.map((raw) => toUserMinimal(raw as unknown as Record<string, unknown>))
+		.map((user) => ({ user, rank: rank(user) }))
+		.filter((match) => match.rank >= 0)
+		.sort((a, b) => a.rank - b.rank)
+		.map((match) => match.user);
+}
+
+/**
+ * Registers user (teammate) tools.
+ */
+export function registerUserTools(
+	server: McpServer,
+	client: PylonClient,
+	resolver: Resolver,
+): void {
+	server.tool(
+		'pylon_list_users',
+		'List users (teammates) in Pylon. Use pylon_find_user to look someone up by name or email.',
+		{
+			limit: z
+				.number()
+				.min(1)
+				.max(MAX_LIST_LIMIT)
+				.optional()
+				.describe(
+					`Results limit (1-${MAX_LIST_LIMIT}, default ${DEFAULT_LIST_LIMIT})`,
+				),
+			cursor: z.string().optional().describe('Pagination cursor'),
+			...fetchAllParams,
+		},
+		withErrorHandling(async ({ limit, cursor, fetch_all, max_items }) => {
+			const { items, footer, requestIds } = await fetchPages(
+				client,
+				(page) => client.listUsers(page),
+				{
+					limit: limit ?? DEFAULT_LIST_LIMIT,
+					cursor,
+					fetchAll: fetch_all,
+					maxItems: max_items,
+				},
+			);
+
+			const users = items.map((raw) =>
+				toUserMinimal(
+					raw as unknown as Record<string, unknown>,
+					requestIds.get(raw.id),
+				),
+			);
+
+			return {
+				content: [{ type: 'text', text: formatUsersAsTable(users) + footer }],
+			};
+		}),
+	);
+
+	server.tool(
+		'pylon_find_user',
+		'Find a user (teammate) by email, user ID, or part of their name, e.g. to get the user ID for assigning an issue. Best matches are listed first.',
+		{
+			query: z
+				.string()
+				.min(1)
+				.describe('Email address, user ID, or full or partial name'),
+		},
+		withErrorHandling(async ({ query }) => {
+			const users = await findUsers(client, resolver, query);
+			if (users.length === 0) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `No users match "${query}". Use pylon_list_users to browse all users.`,
+						},
+					],
+				};
+			}
+
+			const note =
+				users.length > 1
+					? `\n\n${users.length} users match "${query}". Confirm which one is meant before acting on it.`
+					: '';
+			return {
+				content: [{ type: 'text', text: formatUsersAsTable(users) + note }],
+			};
+		}),
+	);
+}
@@ -0,0 +1,273 @@
+/**
+ * Record/replay of Pylon HTTP traffic ("cassettes") for PylonClient tests.
+ *
+ * A Cassette exposes a fetch implementation to pass as PylonConfig.fetch:
+ * - In record mode, requests go to the real API and each request/response pair
+ *   is captured, scrubbed of tokens, PII and free text, and written to a JSON
+ *   fixture by save().
+ * - In replay mode, requests are answered from the fixture and never leave the process.
+ *
+ * Requests are matched by method, path (with sorted query parameters) and the
+ * normalized JSON body. Because the transport sits below PylonClient, the body
+ * is the one actually sent: search filters are matched after cleanFilter.
+ *
+ * To re-record fixtures against a real Pylon org:
+ *   PYLON_RECORD=1 PYLON_API_TOKEN=... pnpm test
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteInteraction {
+	request: {
+		method: string;
+		path: string;
+		body?: unknown;
+	};
+	response: {
+		status: number;
+		headers: Record<string, string>;
+		body: unknown;
+	};
+}
+
+interface CassetteFile {
+	version: 1;
+	/** Explains where a fixture came from, e.g. that it was written by hand */
+	note?: string;
+	interactions: CassetteInteraction[];
+}
+
+// Response headers worth keeping; everything else is noise or identifying
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+// Keys whose values identify a person and are replaced wholesale
+const PII_KEYS = new Set(['avatar_url', 'phone_number', 'phone_numbers']);
+
+// Keys holding people; every name below them is scrubbed, e.g. author.contact.name
+const PERSON_KEYS = new Set([
+	'assignee',
+	'author',
+	'contact',
+	'contacts',
+	'follower',
+	'followers',
+	'owner',
+	'requester',
+	'user',
+	'users',
+]);
+
+// Free text written by customers or agents, which can mention anyone
+const FREE_TEXT_KEYS = new Set([
+	'body_html',
+	'description',
+	'message_html',
+	'subject',
+	'title',
+]);
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+function shortHash(value: string): string {
+	return createHash('sha256').update(value).digest('hex').slice(0, 8);
+}
+
+/**
+ * Replaces emails, people's names, free text and other PII with stable
+ * placeholders. Placeholders are derived from a hash, so the same input always
+ * scrubs to the same output and scrubbed requests still match on replay.
+ * @param inPerson Whether value sits below a person key such as author
+ */
+export function scrub(
+	value: unknown,
+	secrets: string[] = [],
+	inPerson = false,
+): unknown {
+	if (typeof value === 'string') {
+		let result = value;
+		for (const secret of secrets) {
+			result = result.split(secret).join('[REDACTED]');
+		}
+		return result.replace(
+			EMAIL_PATTERN,
+			(email) => `user-${shortHash(email.toLowerCase())}@example.com`,
+		);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => scrub(item, secrets, inPerson));
+	}
+	if (typeof value === 'object' && value !== null) {
+		const record = value as Record<string, unknown>;
+		// Objects with an email are people: their name is PII too
+		const isPerson = inPerson || typeof record['email'] === 'string';
+		const result: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(record)) {
+			if (PII_KEYS.has(key) && item !== null && item !== undefined) {
+				result[key] = '[REDACTED]';
+			} else if (isPerson && key === 'name' && typeof item === 'string') {
+				result[key] = `Person ${shortHash(item)}`;
+			} else if (FREE_TEXT_KEYS.has(key) && typeof item === 'string') {
+				result[key] = `[REDACTED ${shortHash(item)}]`;
+			} else {
+				result[key] = scrub(item, secrets, isPerson || PERSON_KEYS.has(key));
+			}
+		}
+		return result;
+	}
+	return value;
+}
+
+/**
+ * Sorts object keys recursively so logically equal bodies serialize identically.
+ */
+function normalize(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(normalize);
+	}
+	if (typeof value === 'object' && value !== null) {
+		return Object.fromEntries(
+			Object.entries(value as Record<string, unknown>)
+				.filter(([, item]) => item !== undefined)
+				.sort(([a], [b]) => a.localeCompare(b))
+				.map(([key, item]) => [key, normalize(item)]),
+		);
+	}
+	return value;
+}
+
+function normalizePath(url: URL): string {
+	const params = [...url.searchParams.entries()].sort(([a], [b]) =>
+		a.localeCompare(b),
+	);
+	const query = new URLSearchParams(params).toString();
+	return query ? `${url.pathname}?${query}` : url.pathname;
+}
+
+function matchKey(request: CassetteInteraction['request']): string {
+	return `${request.method} ${request.path} ${JSON.stringify(normalize(request.body) ?? null)}`;
+}
+
+export class Cassette {
+	private readonly used = new Set<number>();
+
+	private constructor(
+		readonly path: string,
+		readonly mode: CassetteMode,
+		private readonly interactions: CassetteInteraction[],
+		private readonly secrets: string[],
+	) {}
+
+	/**
+	 * Opens a cassette. In replay mode the fixture must exist; in record mode
+	 * it is started empty and written by save().
+	 * @param secrets Strings (such as the API token) to redact from recordings
+	 */
+	static async open(
+		path: string,
+		mode: CassetteMode,
+		secrets: string[] = [],
+	): Promise<Cassette> {
+		if (mode === 'record') {
+			return new Cassette(path, mode, [], secrets);
+		}
+		const file = JSON.parse(await readFile(path, 'utf8')) as CassetteFile;
+		return new Cassette(path, mode, file.interactions, secrets);
+	}
+
+	/** Fetch implementation to pass as PylonConfig.fetch */
+	readonly fetch: typeof fetch = async (input, init) => {
+		const url = new URL(
+			typeof input === 'string' || input instanceof URL ? input : input.url,
+		);
+		const bodyText = typeof init?.body === 'string' ? init.body : undefined;
+		const request: CassetteInteraction['request'] = {
+			method: (init?.method ?? 'GET').toUpperCase(),
+			path: normalizePath(url),
+			body: scrub(bodyText ? JSON.parse(bodyText) : undefined, this.secrets),
+		};
+
+		if (this.mode === 'replay') {
+			return this.replay(request);
+		}
+
+		const response = await fetch(input, init);
+		const text = await response.text();
+		const headers: Record<string, string> = {};
+		for (const name of RECORDED_HEADERS) {
+			const value = response.headers.get(name);
+			if (value !== null) headers[name] = value;
+		}
+		let body: unknown = text;
+		try {
+			body = JSON.parse(text);
+		} catch {
+			// Keep non-JSON bodies as text
+		}
+		this.interactions.push({
+			request,
+			response: {
+				status: response.status,
+				headers,
+				body: scrub(body, this.secrets),
+			},
+		});
+		return new Response(text, {
+			status: response.status,
+			statusText: response.statusText,
+			headers: response.headers,
+		});
+	};
+
+	/**
+	 * Writes recorded interactions to the fixture file (record mode only).
+	 */
+	async save(): Promise<void> {
+		if (this.mode !== 'record') {
+			return;
+		}
+		const file: CassetteFile = { version: 1, interactions: this.interactions };
+		await mkdir(dirname(this.path), { recursive: true });
+		await writeFile(this.path, `${JSON.stringify(file, null, '\t')}\n`);
+	}
+
+	private replay(request: CassetteInteraction['request']): Response {
+		const key = matchKey(request);
+		// Prefer the first unused match so repeated requests replay in order
+		let index = this.interactions.findIndex(
+			(interaction, i) =>
+				!this.used.has(i) && matchKey(interaction.request) === key,
+		);
+		if (index === -1) {
+			index = this.interactions.findIndex(
+				(interaction) => matchKey(interaction.request) === key,
+			);
+		}
+		const interaction = this.interactions[index];
+		if (!interaction) {
+			const recorded = this.interactions
+				.map((i) => `  ${matchKey(i.request)}`)
+				.join('\n');
+			throw new Error(
+				`No recorded interaction in ${this.path} for:\n  ${key}\nRecorded:\n${recorded}`,
+			);
+		}
+		this.used.add(index);
+
+		const { status, headers, body } = interaction.response;
+		return new Response(
+			typeof body === 'string' ? body : JSON.stringify(body),
+			{ status, headers },
+		);
+	}
+}
+
+/**
+ * Record mode is enabled with PYLON_RECORD=1; replay is the default.
+ */
+export function cassetteModeFromEnv(): CassetteMode {
+	return process.env['PYLON_RECORD'] ? 'record' : 'replay';
+}
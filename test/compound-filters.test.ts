@@ -0,0 +1,306 @@
+import { describe, expect, it } from 'vitest';
+import {
+	CompoundFilterError,
+	MAX_FILTER_QUERIES,
+	planFilter,
+	runFilterPlan,
+} from '../src/compound-filters.js';
+
+describe('planFilter', () => {
+	it('plans a plain filter as one query', () => {
+		expect(planFilter('issue', { state: { equals: 'new' } })).toEqual({
+			kind: 'query',
+			conditions: { state: { equals: 'new' } },
+		});
+	});
+
+	it('merges and groups on different operators into one query', () => {
+		expect(
+			planFilter('issue', {
+				state: { equals: 'new' },
+				and: [
+					{ created_at: { time_is_after: '2025-01-01T00:00:00Z' } },
+					{ created_at: { time_is_before: '2025-02-01T00:00:00Z' } },
+				],
+			}),
+		).toEqual({
+			kind: 'query',
+			conditions: {
+				state: { equals: 'new' },
+				created_at: {
+					time_is_after: '2025-01-01T00:00:00Z',
+					time_is_before: '2025-02-01T00:00:00Z',
+				},
+			},
+		});
+	});
+
+	it('keeps overlapping and conditions as separate queries', () => {
+		expect(
+			planFilter('issue', {
+				and: [{ tags: { contains: 'bug' } }, { tags: { contains: 'sso' } }],
+			}),
+		).toEqual({
+			kind: 'and',
+			children: [
+				{ kind: 'query', conditions: { tags: { contains: 'bug' } } },
+				{ kind: 'query', conditions: { tags: { contains: 'sso' } } },
+			],
+		});
+	});
+
+	it('merges repeated in and not_in lists on one field', () => {
+		expect(
+			planFilter('issue', {
+				and: [
+					{ state: { not_in: ['closed'] } },
+					{ state: { not_in: ['new'] } },
+					{ priority: { in: ['urgent', 'high'] } },
+					{ priority: { in: ['high', 'medium'] } },
+				],
+			}),
+		).toEqual({
+			kind: 'query',
+			conditions: {
+				state: { not_in: ['closed', 'new'] },
+				priority: { in: ['high'] },
+			},
+		});
+		// in lists with nothing in common can't be one query
+		expect(
+			planFilter('issue', {
+				and: [{ state: { in: ['new'] } }, { state: { in: ['closed'] } }],
+			}),
+		).toMatchObject({ kind: 'and' });
+	});
+
+	it('merges negated and repeated tag conditions into one not_in query', () => {
+		expect(
+			planFilter('issue', {
+				tags: { contains: 'a' },
+				and: [
+					{ not: { tags: { contains: 'b' } } },
+					{ not: { tags: { contains: 'c' } } },
+				],
+			}),
+		).toEqual({
+			kind: 'query',
+			conditions: { tags: { contains: 'a', not_in: ['b', 'c'] } },
+		});
+		expect(
+			planFilter('issue', {
+				and: [
+					{ tags: { does_not_contain: 'b' } },
+					{ tags: { does_not_contain: 'c' } },
+					{ tags: { does_not_contain: 'd' } },
+				],
+			}),
+		).toEqual({
+			kind: 'query',
+			conditions: { tags: { does_not_contain: 'b', not_in: ['c', 'd'] } },
+		});
+	});
+
+	it('keeps the tighter of repeated time bounds', () => {
+		expect(
+			planFilter('issue', {
+				and: [
+					{ created_at: { time_is_after: '2025-01-01T00:00:00Z' } },
+					{ created_at: { time_is_after: '2025-03-01T00:00:00Z' } },
+					{ created_at: { time_is_before: '2025-06-01T00:00:00Z' } },
+					{ created_at: { time_is_before: '2025-05-01T00:00:00Z' } },
+				],
+			}),
+		).toEqual({
+			kind: 'query',
+			conditions: {
+				created_at: {
+					time_is_after: '2025-03-01T00:00:00Z',
+					time_is_before: '2025-05-01T00:00:00Z',
+				},
+			},
+		});
+	});
+
+	it('merges or groups of equals on one field into in', () => {
+		expect(
+			planFilter('issue', {
+				or: [
+					{ priority: { equals: 'urgent' } },
+					{ priority: { in: ['high', 'urgent'] } },
+				],
+			}),
+		).toEqual({
+			kind: 'query',
+			conditions: { priority: { in: ['urgent', 'high'] } },
+		});
+	});
+
+	it('negates single conditions with the opposite operator', () => {
+		expect(
+			planFilter('issue', { not: { state: { equals: 'closed' } } }),
+		).toEqual({ kind: 'query', conditions: { state: { not_in: ['closed'] } } });
+		expect(
+			planFilter('issue', {
+				not: { customer_portal_visible: { equals: true } },
+			}),
+		).toEqual({
+			kind: 'query',
+			conditions: { customer_portal_visible: { equals: false } },
+		});
+		expect(
+			planFilter('issue', {
+				not: {
+					created_at: {
+						time_range: {
+							start: '2025-01-01T00:00:00Z',
+							end: '2025-02-01T00:00:00Z',
+						},
+					},
+				},
+			}),
+		).toEqual({
+			kind: 'or',
+			children: [
+				{
+					kind: 'query',
+					conditions: {
+						created_at: { time_is_before: '2025-01-01T00:00:00Z' },
+					},
+				},
+				{
+					kind: 'query',
+					conditions: { created_at: { time_is_after: '2025-02-01T00:00:00Z' } },
+				},
+			],
+		});
+	});
+
+	it('keeps not groups that cannot be negated natively', () => {
+		expect(
+			planFilter('issue', {
+				not: { state: { equals: 'closed' }, tags: { contains: 'bug' } },
+			}),
+		).toEqual({
+			kind: 'not',
+			child: {
+				kind: 'query',
+				conditions: { state: { equals: 'closed' }, tags: { contains: 'bug' } },
+			},
+		});
+	});
+
+	it('leaves unsupported fields and operators out of the plan', () => {
+		expect(
+			planFilter('issue', {
+				state: { equals: 'new', eq: 'closed' },
+				prioirty: { equals: 'urgent' },
+			}),
+		).toEqual({ kind: 'query', conditions: { state: { equals: 'new' } } });
+	});
+
+	it('rejects malformed and deeply nested groups', () => {
+		expect(() => planFilter('issue', { or: [] })).toThrow(
+			'filter.or must be a non-empty list of filters.',
+		);
+		expect(() =>
+			planFilter('issue', { and: [{ priority: { equals: 'critical' } }] }),
+		).toThrow(/^Invalid filter at filter\.and\[0\]/);
+
+		expect(() =>
+			planFilter('issue', {
+				or: [
+					{ priorty: { equals: 'urgent' } },
+					{ tags: { contains: 'outage' } },
+				],
+			}),
+		).toThrow(
+			'filter.or[0] has no supported conditions left, so it would match every record:\n- filter.or[0].priorty: not a searchable field, use priority',
+		);
+		expect(() =>
+			planFilter('issue', { not: { state: { eq: 'closed' } } }),
+		).toThrow(/^filter\.not has no supported conditions left/);
+
+		let nested: Record<string, unknown> = { state: { equals: 'new' } };
+		for (let i = 0; i < 6; i++) {
+			nested = { not: nested };
+		}
+		expect(() => planFilter('issue', nested)).toThrow(CompoundFilterError);
+	});
+});
+
+describe('runFilterPlan', () => {
+	const issues = [
+		{ id: 'a', state: 'new', tags: ['bug'] },
+		{ id: 'b', state: 'closed', tags: ['bug'] },
+		{ id: 'c', state: 'new', tags: [] },
+		{ id: 'd', state: 'closed', tags: ['outage'] },
+	];
+	// Evaluates single-condition queries against the fixture
+	const runQuery = async (
+		conditions: Record<string, Record<string, unknown>>,
+	) => ({
+		items: issues.filter((issue) =>
+			Object.entries(conditions).every(([field, operators]) =>
+				Object.entries(operators).every(([operator, value]) => {
+					const actual = issue[field as 'state' | 'tags'];
+					return operator === 'contains'
+						? (actual as string[]).includes(value as string)
+						: actual === value;
+				}),
+			),
+		),
+	});
+
+	it('combines queries with set logic', async () => {
+		const result = await runFilterPlan(
+			{
+				kind: 'and',
+				children: [
+					{
+						kind: 'or',
+						children: [
+							{ kind: 'query', conditions: { tags: { contains: 'bug' } } },
+							{ kind: 'query', conditions: { tags: { contains: 'outage' } } },
+						],
+					},
+					{
+						kind: 'not',
+						child: { kind: 'query', conditions: { state: { equals: 'new' } } },
+					},
+				],
+			},
+			runQuery,
+		);
+		expect(result.items.map((issue) => issue.id)).toEqual(['b', 'd']);
+		expect(result.queries).toBe(3);
+		expect(result.truncated).toBe(false);
+	});
+
+	it('subtracts a lone not group from every record', async () => {
+		const result = await runFilterPlan(
+			{
+				kind: 'not',
+				child: { kind: 'query', conditions: { tags: { contains: 'bug' } } },
+			},
+			runQuery,
+		);
+		expect(result.items.map((issue) => issue.id)).toEqual(['c', 'd']);
+	});
+
+	it('rejects plans over the query limit before running any', async () => {
+		let calls = 0;
+		const plan = planFilter('issue', {
+			or: Array.from({ length: MAX_FILTER_QUERIES + 1 }, (_, i) => ({
+				title: { string_contains: `term${i}` },
+			})),
+		});
+		await expect(
+			runFilterPlan(plan, async () => {
+				calls++;
+				return { items: [] };
+			}),
+		).rejects.toThrow(CompoundFilterError);
+		expect(calls).toBe(0);
+	});
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+	CustomFieldValidationError,
+	validateCustomFieldValues,
+} from '../src/custom-fields.js';
+import type { CustomField } from '../src/pylon-client.js';
+
+const definitions: CustomField[] = [
+	{
+		id: 'cf_1',
+		slug: 'severity',
+		label: 'Severity',
+		type: 'select',
+		object_type: 'issue',
+		select_metadata: {
+			options: [
+				{ slug: 'sev1', label: 'Sev 1' },
+				{ slug: 'sev2', label: 'Sev 2' },
+			],
+		},
+	},
+	{
+		id: 'cf_2',
+		slug: 'components',
+		label: 'Components',
+		type: 'multiselect',
+		object_type: 'issue',
+		select_metadata: {
+			options: [
+				{ slug: 'api', label: 'API' },
+				{ slug: 'web', label: 'Web' },
+			],
+		},
+	},
+	{
+		id: 'cf_3',
+		slug: 'count',
+		label: 'Count',
+		type: 'number',
+		object_type: 'issue',
+	},
+	{
+		id: 'cf_4',
+		slug: 'ratio',
+		label: 'Ratio',
+		type: 'decimal',
+		object_type: 'issue',
+	},
+	{
+		id: 'cf_5',
+		slug: 'flag',
+		label: 'Flag',
+		type: 'boolean',
+		object_type: 'issue',
+	},
+	{ id: 'cf_6', slug: 'due', label: 'Due', type: 'date', object_type: 'issue' },
+	{
+		id: 'cf_7',
+		slug: 'seen_at',
+		label: 'Seen',
+		type: 'datetime',
+		object_type: 'issue',
+	},
+	{
+		id: 'cf_8',
+		slug: 'docs',
+		label: 'Docs',
+		type: 'url',
+		object_type: 'issue',
+	},
+	{
+		id: 'cf_9',
+		slug: 'plan',
+		label: 'Plan',
+		type: 'text',
+		object_type: 'account',
+	},
+];
+
+describe('validateCustomFieldValues', () => {
+	it('should convert values to the API shape', () => {
+		expect(
+			validateCustomFieldValues('issue', definitions, {
+				severity: 'Sev 1',
+				components: ['api', 'WEB'],
+				count: 3,
+				ratio: 0.5,
+				flag: false,
+				due: '2025-02-01',
+				seen_at: '2025-02-01T10:00:00Z',
+				docs: 'https://docs.example.com',
+			}),
+		).toEqual([
+			{ slug: 'severity', value: 'sev1' },
+			{ slug: 'components', values: ['api', 'web'] },
+			{ slug: 'count', value: '3' },
+			{ slug: 'ratio', value: '0.5' },
+			{ slug: 'flag', value: 'false' },
+			{ slug: 'due', value: '2025-02-01' },
+			{ slug: 'seen_at', value: '2025-02-01T10:00:00Z' },
+			{ slug: 'docs', value: 'https://docs.example.com' },
+		]);
+	});
+
+	it('should report every problem at once', () => {
+		let error: unknown;
+		try {
+			validateCustomFieldValues('issue', definitions, {
+				severity: 'sev9',
+				components: ['api', 'ios'],
+				count: 1.5,
+				flag: 'yes',
+				due: '02/01/2025',
+				plan: 'pro',
+			});
+		} catch (e) {
+			error = e;
+		}
+		expect(error).toBeInstanceOf(CustomFieldValidationError);
+		expect((error as CustomFieldValidationError).problems).toEqual([
+			'severity (select): "sev9" is not an option (sev1, sev2)',
+			'components (multiselect): "ios" is not an option (api, web)',
+			'count (number): expected a whole number, got number 1.5',
+			'flag (boolean): expected true or false, got string "yes"',
+			'due (date): expected a date like 2024-01-31, got string "02/01/2025"',
+			'plan: no issue custom field with this slug (available: severity, components, count, ratio, flag, due, seen_at, docs)',
+		]);
+	});
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+	FILTER_FIELDS,
+	type FilterField,
+	type FilterObjectType,
+	type FilterOperator,
+	filterSchema,
+} from '../src/filter-fields.js';
+import {
+	findDroppedFilterOperators,
+	PylonClient,
+	UnsupportedFilterOperatorError,
+} from '../src/pylon-client.js';
+
+function sampleValue(field: FilterField, operator: FilterOperator): unknown {
+	const value = field.values?.[0] ?? (field.type === 'boolean' ? true : 'x');
+	switch (operator) {
+		case 'equals':
+			return value;
+		case 'in':
+		case 'not_in':
+			return [value];
+		case 'is_set':
+		case 'is_unset':
+			return true;
+		case 'time_range':
+			return { start: '2025-01-01T00:00:00Z', end: '2025-01-08T00:00:00Z' };
+		default:
+			return '2025-01-01T00:00:00Z';
+	}
+}
+
+const fields = (Object.keys(FILTER_FIELDS) as FilterObjectType[]).flatMap(
+	(objectType) =>
+		Object.entries(FILTER_FIELDS[objectType]).map(
+			([name, field]) => [objectType, name, field] as const,
+		),
+);
+
+describe('filter field registry', () => {
+	it.each(
+		fields,
+	)('%s.%s accepts and keeps its operators', (objectType, name, field) => {
+		const filter = {
+			[name]: Object.fromEntries(
+				field.operators.map((op) => [op, sampleValue(field, op)]),
+			),
+		};
+		expect(filterSchema(objectType, '{}').parse(filter)).toEqual(filter);
+		expect(findDroppedFilterOperators(objectType, filter)).toEqual([]);
+	});
+
+	it.each(fields)('%s.%s drops unregistered operators', (objectType, name) => {
+		const filter = { [name]: { unsupported_op: 'x' } };
+		expect(filterSchema(objectType, '{}').parse(filter)).toEqual(filter);
+		expect(findDroppedFilterOperators(objectType, filter)).toEqual([
+			expect.objectContaining({ field: name, operator: 'unsupported_op' }),
+		]);
+	});
+
+	it('describes operators and allowed values', () => {
+		const schema = filterSchema('issue', '{state: {equals: "new"}}');
+		expect(schema.description).toBe(
+			'Filter object. Each field requires an operator like {state: {equals: "new"}}. Fields and groups are all ANDed together',
+		);
+		expect(schema.shape['priority']?.description).toBe(
+			'Filter by priority. Operators: equals, in, not_in; values: urgent, high, medium, low',
+		);
+		expect(() => schema.parse({ priority: { equals: 'critical' } })).toThrow();
+	});
+
+	it('reports or rejects fields not registered for the object type', async () => {
+		const filter = { name: { string_contains: 'acme' } };
+		expect(findDroppedFilterOperators('account', filter)).toEqual([]);
+		// The schema keeps the field so it can be reported rather than stripped
+		expect(filterSchema('contact', '{}').parse(filter)).toEqual(filter);
+		expect(findDroppedFilterOperators('contact', filter)).toEqual([
+			{
+				field: 'name',
+				suggestion: undefined,
+				supported: ['id', 'email', 'account_id'],
+			},
+		]);
+
+		const fetchMock = vi.fn<typeof fetch>();
+		const strict = new PylonClient({
+			apiToken: 'test-token',
+			fetch: fetchMock,
+			filterValidation: 'strict',
+		});
+		await expect(strict.searchContacts(filter)).rejects.toThrow(
+			UnsupportedFilterOperatorError,
+		);
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { type FilterPlan, planFilter } from '../src/compound-filters.js';
+import { parseIssueQuery, QueryParseError } from '../src/issue-query.js';
+import { PylonClient } from '../src/pylon-client.js';
+import { Resolver } from '../src/resolver.js';
+import { MOCK_API_TOKEN, MockPylonServer } from './mock-pylon-server.js';
+
+describe('parseIssueQuery', () => {
+	let mock: MockPylonServer;
+	let resolver: Resolver;
+
+	beforeEach(async () => {
+		mock = new MockPylonServer();
+		const client = new PylonClient({
+			apiToken: MOCK_API_TOKEN,
+			baseUrl: await mock.start(),
+			maxRetries: 0,
+			rateLimit: { requestsPerSecond: 0, maxConcurrency: 0 },
+		});
+		resolver = new Resolver(client);
+	});
+
+	afterEach(async () => {
+		await mock.stop();
+	});
+
+	const parse = (query: string) =>
+		parseIssueQuery(query, resolver, 'dana@example.com');
+
+	it('should parse qualifiers, negation and title text', async () => {
+		expect(
+			await parse(
+				'state:waiting_on_you tag:bug assignee:me created:>2025-09-01 -tag:spam "login error"',
+			),
+		).toEqual({
+			state: { equals: 'waiting_on_you' },
+			tags: { contains: 'bug' },
+			assignee_id: { equals: 'user_dana' },
+			created_at: { time_is_after: '2025-09-02T00:00:00Z' },
+			not: { tags: { contains: 'spam' } },
+			title: { string_contains: 'login error' },
+		});
+	});
+
+	it('should resolve references and lists of values', async () => {
+		expect(
+			await parse(
+				'priority:urgent,HIGH account:"Acme Corp" team:Support requester:bob@globex.com form:none type:ticket portal:false',
+			),
+		).toEqual({
+			priority: { in: ['urgent', 'high'] },
+			account_id: { equals: 'acc_acme' },
+			team_id: { equals: 'team_support' },
+			requester_id: { equals: 'con_bob' },
+			ticket_form_id: { is_unset: true },
+			issue_type: { equals: 'Ticket' },
+			customer_portal_visible: { equals: false },
+		});
+	});
+
+	it('should parse date comparisons and ranges as whole days', async () => {
+		expect(
+			await parse(
+				'updated:>=2025-09-01 resolved:<=2025-09-30 activity:2025-09-01..2025-09-07 created:2025-09-15',
+			),
+		).toEqual({
+			updated_at: { time_is_after: '2025-09-01T00:00:00Z' },
+			resolved_at: { time_is_before: '2025-10-01T00:00:00Z' },
+			latest_message_activity_at: {
+				time_range: {
+					start: '2025-09-01T00:00:00Z',
+					end: '2025-09-08T00:00:00Z',
+				},
+			},
+			created_at: {
+				time_range: {
+					start: '2025-09-15T00:00:00Z',
+					end: '2025-09-16T00:00:00Z',
+				},
+			},
+		});
+	});
+
+	it('should group repeated conditions and OR alternatives', async () => {
+		expect(await parse('login -tag:spam sso -tag:test "error"')).toEqual({
+			title: { string_contains: 'login sso' },
+			not: { tags: { contains: 'spam' } },
+			and: [
+				{ not: { tags: { contains: 'test' } } },
+				{ title: { string_contains: 'error' } },
+			],
+		});
+		expect(await parse('login failed OR sso -login')).toEqual({
+			or: [
+				{ title: { string_contains: 'login failed' } },
+				{
+					title: { string_contains: 'sso' },
+					not: { title: { string_contains: 'login' } },
+				},
+			],
+		});
+		expect(await parse('priority:urgent OR tag:outage state:new')).toEqual({
+			or: [
+				{ priority: { equals: 'urgent' } },
+				{ tags: { contains: 'outage' }, state: { equals: 'new' } },
+			],
+		});
+	});
+
+	it('should flip negated date bounds', async () => {
+		expect(await parse('-created:>2025-09-01 -updated:<2025-09-01')).toEqual({
+			created_at: { time_is_before: '2025-09-02T00:00:00Z' },
+			updated_at: { time_is_after: '2025-09-01T00:00:00Z' },
+		});
+	});
+
+	describe('planned searches', () => {
+		const plan = async (query: string) =>
+			planFilter('issue', await parse(query));
+		const search = (conditions: Record<string, unknown>): FilterPlan => ({
+			kind: 'query',
+			conditions: conditions as Record<string, Record<string, unknown>>,
+		});
+
+		it('should run the README examples as one search', async () => {
+			expect(
+				await plan(
+					'state:waiting_on_you tag:bug assignee:me created:>2025-09-01 -tag:spam "login error"',
+				),
+			).toEqual(
+				search({
+					state: { equals: 'waiting_on_you' },
+					tags: { contains: 'bug', not_in: ['spam'] },
+					assignee_id: { equals: 'user_dana' },
+					created_at: { time_is_after: '2025-09-02T00:00:00Z' },
+					title: { string_contains: 'login error' },
+				}),
+			);
+			expect(await plan('tag:bug -tag:spam -tag:wontfix')).toEqual(
+				search({ tags: { contains: 'bug', not_in: ['wontfix', 'spam'] } }),
+			);
+			expect(await plan('-created:>2025-09-01')).toEqual(
+				search({ created_at: { time_is_before: '2025-09-02T00:00:00Z' } }),
+			);
+		});
+
+		it('should bound the searches for an excluded day', async () => {
+			expect(await plan('created:>=2025-09-01 -created:2025-09-01')).toEqual(
+				search({ created_at: { time_is_after: '2025-09-02T00:00:00Z' } }),
+			);
+			// Either side of the day, each search still filtered by tag
+			expect(await plan('tag:bug -created:2025-09-01')).toEqual({
+				kind: 'or',
+				children: [
+					search({
+						tags: { contains: 'bug' },
+						created_at: { time_is_before: '2025-09-01T00:00:00Z' },
+					}),
+					search({
+						tags: { contains: 'bug' },
+						created_at: { time_is_after: '2025-09-02T00:00:00Z' },
+					}),
+				],
+			});
+		});
+
+		it('should run OR alternatives as one search each', async () => {
+			expect(await plan('priority:urgent OR tag:outage state:new')).toEqual({
+				kind: 'or',
+				children: [
+					search({ priority: { in: ['urgent'] } }),
+					search({ tags: { contains: 'outage' }, state: { equals: 'new' } }),
+				],
+			});
+		});
+	});
+
+	it('should point at the offending token', async () => {
+		const error = await parse('state:new asignee:me').catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(QueryParseError);
+		expect((error as QueryParseError).position).toBe(10);
+		expect((error as Error).message).toBe(
+			[
+				'Can\'t parse query at "asignee:me": unknown qualifier "asignee". Use one of: state, priority, tag, title, type, source, portal, assignee, requester, account, team, form, created, updated, resolved, activity, or quote text containing ":"',
+				'  state:new asignee:me',
+				'            ^^^^^^^^^^',
+			].join('\n'),
+		);
+
+		await expect(parse('created:>yesterday')).rejects.toThrow(
+			'"yesterday" is not a date',
+		);
+		await expect(parse('priority:critical')).rejects.toThrow(
+			'unknown priority "critical"',
+		);
+		await expect(parse('assignee:nobody@example.com')).rejects.toThrow(
+			/^Can't parse query at "assignee:nobody@example.com": No user matches/,
+		);
+		await expect(parse('tag:bug OR')).rejects.toThrow(
+			'OR needs a term on each side',
+		);
+		await expect(parse('"login error')).rejects.toThrow('unterminated quote');
+	});
+
+	it('should require a configured user for me', async () => {
+		await expect(parseIssueQuery('assignee:me', resolver)).rejects.toThrow(
+			'"me" needs PYLON_USER_EMAIL',
+		);
+	});
+});
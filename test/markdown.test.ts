@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { markdownToHtml } from '../src/markdown.js';
+
+describe('markdownToHtml', () => {
+	it('should convert paragraphs and line breaks', () => {
+		expect(
+			markdownToHtml('Hi Alice,\nThanks for waiting.\n\nBest,\nDana'),
+		).toBe('<p>Hi Alice,<br>Thanks for waiting.</p><p>Best,<br>Dana</p>');
+	});
+
+	it('should convert inline formatting', () => {
+		expect(
+			markdownToHtml(
+				'**Bold**, *italic*, _also italic_, `a <b> code` and [docs](https://docs.example.com/a_b_c)',
+			),
+		).toBe(
+			'<p><strong>Bold</strong>, <em>italic</em>, <em>also italic</em>, <code>a &lt;b&gt; code</code> and <a href="https://docs.example.com/a_b_c">docs</a></p>',
+		);
+	});
+
+	it('should leave underscores and asterisks in link targets alone', () => {
+		expect(
+			markdownToHtml(
+				'See [the _guide_](https://docs.example.com/_foo_/a__b__/*c*)',
+			),
+		).toBe(
+			'<p>See <a href="https://docs.example.com/_foo_/a__b__/*c*">the <em>guide</em></a></p>',
+		);
+	});
+
+	it('should convert headings, lists, quotes and code blocks', () => {
+		const markdown = [
+			'## Steps',
+			'1. Open settings',
+			'2. Rotate the key',
+			'',
+			'- one',
+			'* two',
+			'',
+			'> quoted',
+			'',
+			'```',
+			'if (a < b) {}',
+			'```',
+		].join('\n');
+		expect(markdownToHtml(markdown)).toBe(
+			'<h2>Steps</h2><ol><li>Open settings</li><li>Rotate the key</li></ol><ul><li>one</li><li>two</li></ul><blockquote><p>quoted</p></blockquote><pre><code>if (a &lt; b) {}</code></pre>',
+		);
+	});
+
+	it('should escape raw HTML', () => {
+		expect(markdownToHtml('<script>alert(1)</script> & co')).toBe(
+			'<p>&lt;script&gt;alert(1)&lt;/script&gt; &amp; co</p>',
+		);
+	});
+});
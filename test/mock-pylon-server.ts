@@ -0,0 +1,914 @@
+/**
+ * In-memory stand-in for the Pylon REST API, used by the end-to-end tool tests.
+ *
+ * It mimics the parts of Pylon's behavior the server depends on:
+ * - Bearer token auth (401 on a bad token)
+ * - Cursor pagination with { data, pagination: { cursor, has_next_page }, request_id }
+ * - Search filters with Pylon's operators (unknown operators are rejected with 400)
+ * - The 30-day limit on issue time ranges
+ * - 404s for unknown IDs and 400s for missing required fields
+ *
+ * Start it with `await mock.start()` and point PylonClient's baseUrl at the returned URL.
+ */
+
+import {
+	createServer,
+	type IncomingMessage,
+	type Server,
+	type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export const MOCK_API_TOKEN = 'mock-pylon-token';
+
+const MAX_TIME_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 100;
+
+type Entity = Record<string, unknown> & { id: string };
+
+export interface MockPylonState {
+	organization: { id: string; name: string };
+	accounts: Entity[];
+	contacts: Entity[];
+	issues: Entity[];
+	messages: Record<string, Entity[]>;
+	followers: Record<string, { id: string; email: string }[]>;
+	tags: Entity[];
+	teams: Entity[];
+	users: Entity[];
+	customFields: Entity[];
+	ticketForms: Entity[];
+	attachments: Entity[];
+	knowledgeBases: Entity[];
+	/** Articles by knowledge base ID */
+	articles: Record<string, Entity[]>;
+}
+
+export interface RecordedRequest {
+	method: string;
+	path: string;
+	query: Record<string, string>;
+	body: unknown;
+}
+
+class HttpError extends Error {
+	constructor(
+		readonly status: number,
+		message: string,
+	) {
+		super(message);
+	}
+}
+
+/**
+ * Seed data covering every entity type. Issues span roughly three months so
+ * that 30-day chunking has something to do.
+ */
+export function createSeedState(): MockPylonState {
+	const users = [
+		{ id: 'user_dana', email: 'dana@example.com', name: 'Dana Scully' },
+		{ id: 'user_fox', email: 'fox@example.com', name: 'Fox Mulder' },
+		{ id: 'user_walter', email: 'walter@example.com', name: 'Walter Skinner' },
+	];
+	const accounts = [
+		{
+			id: 'acc_acme',
+			name: 'Acme Corp',
+			domains: ['acme.com'],
+			primary_domain: 'acme.com',
+			owner: { id: 'user_dana' },
+			tags: ['enterprise'],
+			external_ids: [],
+			custom_fields: {},
+		},
+		{
+			id: 'acc_globex',
+			name: 'Globex',
+			domains: ['globex.com', 'globex.io'],
+			primary_domain: 'globex.com',
+			tags: ['trial'],
+			external_ids: [],
+			custom_fields: {},
+		},
+	];
+	const contacts = [
+		{
+			id: 'con_alice',
+			name: 'Alice Smith',
+			email: 'alice@acme.com',
+			emails: ['alice@acme.com'],
+			account: { id: 'acc_acme', name: 'Acme Corp' },
+			portal_role: 'member',
+			custom_fields: {},
+		},
+		{
+			id: 'con_bob',
+			name: 'Bob Jones',
+			email: 'bob@globex.com',
+			emails: ['bob@globex.com'],
+			account: { id: 'acc_globex', name: 'Globex' },
+			portal_role: 'no_access',
+			custom_fields: {},
+		},
+	];
+	const issueSeeds: [string, string, string, string][] = [
+		['Login error on SSO', 'new', '2025-01-05T10:00:00Z', 'acc_acme'],
+		[
+			'Billing question',
+			'waiting_on_you',
+			'2025-01-20T10:00:00Z',
+			'acc_globex',
+		],
+		['API returns 500', 'on_hold', '2025-02-10T10:00:00Z', 'acc_acme'],
+		[
+			'Feature request: dark mode',
+			'closed',
+			'2025-02-25T10:00:00Z',
+			'acc_globex',
+		],
+		[
+			'Outage in EU region',
+			'waiting_on_customer',
+			'2025-03-15T10:00:00Z',
+			'acc_acme',
+		],
+	];
+	const issues = issueSeeds.map(([title, state, created_at, accountId], i) => ({
+		id: `iss_${i + 1}`,
+		number: 1000 + i + 1,
+		title,
+		state,
+		priority: i === 0 ? 'urgent' : 'medium',
+		body_html: `<p>${title}</p><p>Details for issue ${1000 + i + 1}.</p>`,
+		link: `https://app.usepylon.com/issues?issueNumber=${1000 + i + 1}`,
+		created_at,
+		// The billing question saw activity weeks after it was opened
+		updated_at: i === 1 ? '2025-03-20T10:00:00Z' : created_at,
+		resolution_time: state === 'closed' ? created_at : null,
+		account: { id: accountId },
+		assignee:
+			i % 2 === 0 ? { id: 'user_dana', email: 'dana@example.com' } : null,
+		requester: { id: accountId === 'acc_acme' ? 'con_alice' : 'con_bob' },
+		team: { id: 'team_support' },
+		tags: i === 0 ? ['bug', 'sso'] : i === 4 ? ['outage'] : [],
+		customer_portal_visible: i !== 2,
+		source: i === 2 ? 'slack' : 'email',
+		type: 'Conversation',
+		custom_fields: {},
+	}));
+	const messages: Record<string, Entity[]> = {
+		iss_1: [
+			{
+				id: 'msg_1',
+				message_html: '<p>I cannot log in with SSO.</p>',
+				author: {
+					name: 'Alice Smith',
+					contact: { id: 'con_alice', email: 'alice@acme.com' },
+				},
+				is_private: false,
+				source: 'email',
+				thread_id: 'thread_1',
+				timestamp: '2025-01-05T10:00:00Z',
+			},
+			{
+				id: 'msg_2',
+				message_html: '<p>Looks like an IdP misconfiguration.</p>',
+				author: {
+					name: 'Dana Scully',
+					user: { id: 'user_dana', email: 'dana@example.com' },
+				},
+				is_private: true,
+				source: 'app',
+				thread_id: 'thread_internal',
+				timestamp: '2025-01-05T11:00:00Z',
+			},
+			{
+				id: 'msg_3',
+				message_html: '<p>Please check your SAML certificate.</p>',
+				author: {
+					name: 'Dana Scully',
+					user: { id: 'user_dana', email: 'dana@example.com' },
+				},
+				is_private: false,
+				source: 'email',
+				thread_id: 'thread_1',
+				timestamp: '2025-01-05T12:00:00Z',
+			},
+		],
+	};
+	const tags = [
+		{ id: 'tag_bug', value: 'bug', object_type: 'issue', hex_color: '#ff0000' },
+		{ id: 'tag_sso', value: 'sso', object_type: 'issue' },
+		{ id: 'tag_outage', value: 'outage', object_type: 'issue' },
+		{ id: 'tag_p1', value: 'p1', object_type: 'issue' },
+		{ id: 'tag_enterprise', value: 'enterprise', object_type: 'account' },
+		{ id: 'tag_trial', value: 'trial', object_type: 'account' },
+		{ id: 'tag_vip', value: 'vip', object_type: 'contact' },
+	];
+	const teams = [
+		{
+			id: 'team_support',
+			name: 'Support',
+			users: [
+				{ id: 'user_dana', email: 'dana@example.com' },
+				{ id: 'user_fox', email: 'fox@example.com' },
+			],
+		},
+		{ id: 'team_eng', name: 'Engineering', users: [] },
+	];
+
+	const options = (...slugs: string[]) => ({
+		options: slugs.map((slug) => ({
+			slug,
+			label: slug.charAt(0).toUpperCase() + slug.slice(1),
+		})),
+	});
+	const customFields = [
+		{
+			id: 'cf_severity',
+			slug: 'severity',
+			label: 'Severity',
+			type: 'select',
+			object_type: 'issue',
+			select_metadata: options('sev1', 'sev2', 'sev3'),
+		},
+		{
+			id: 'cf_components',
+			slug: 'components',
+			label: 'Components',
+			type: 'multiselect',
+			object_type: 'issue',
+			select_metadata: options('api', 'web', 'mobile'),
+		},
+		{
+			id: 'cf_affected_users',
+			slug: 'affected_users',
+			label: 'Affected users',
+			type: 'number',
+			object_type: 'issue',
+		},
+		{
+			id: 'cf_escalation_owner',
+			slug: 'escalation_owner',
+			label: 'Escalation owner',
+			type: 'user',
+			object_type: 'issue',
+		},
+		{
+			id: 'cf_plan',
+			slug: 'plan',
+			label: 'Plan',
+			type: 'select',
+			object_type: 'account',
+			select_metadata: options('free', 'pro', 'enterprise'),
+		},
+		{
+			id: 'cf_renewal_date',
+			slug: 'renewal_date',
+			label: 'Renewal date',
+			type: 'date',
+			object_type: 'account',
+		},
+		{
+			id: 'cf_champion',
+			slug: 'champion',
+			label: 'Champion',
+			type: 'boolean',
+			object_type: 'contact',
+		},
+	];
+
+	const ticketForms = [
+		{
+			id: 'form_bug',
+			name: 'Bug report',
+			description: 'Report something broken',
+			url: 'https://support.example.com/forms/bug',
+			is_public: true,
+			fields: [
+				{ slug: 'title', label: 'Subject', required: true },
+				{ slug: 'priority', label: 'Priority', required: true },
+				{
+					slug: 'severity',
+					label: 'Severity',
+					type: 'select',
+					required: true,
+				},
+				{
+					slug: 'components',
+					label: 'Components',
+					type: 'multiselect',
+					required: true,
+				},
+				{
+					slug: 'affected_users',
+					label: 'Affected users',
+					type: 'number',
+					required: false,
+				},
+			],
+		},
+		{
+			id: 'form_question',
+			name: 'Question',
+			is_public: false,
+			fields: [{ slug: 'title', label: 'Subject', required: true }],
+		},
+	];
+
+	const knowledgeBases = [
+		{
+			id: 'kb_help',
+			title: 'Help Center',
+			slug: 'help',
+			default_language: 'en',
+		},
+		{ id: 'kb_internal', title: 'Internal runbooks', slug: 'runbooks' },
+	];
+	const articles = {
+		kb_help: [
+			{
+				id: 'art_sso',
+				title: 'Configure SAML SSO',
+				slug: 'saml-sso',
+				body_html:
+					'<h1>Configure SAML SSO</h1><p>Upload your IdP <strong>certificate</strong> under Settings &gt; Security.</p>',
+				is_published: true,
+				url: 'https://help.example.com/articles/saml-sso',
+				last_published_at: '2024-03-01T10:00:00Z',
+			},
+			{
+				id: 'art_limits',
+				title: 'API rate limits',
+				slug: 'rate-limits',
+				body_html:
+					'<p>Requests over the limit get a 429 response. Retry after the time in the Retry-After header.</p>',
+				is_published: true,
+				url: 'https://help.example.com/articles/rate-limits',
+				last_published_at: '2024-02-10T09:00:00Z',
+			},
+			{
+				id: 'art_billing',
+				title: 'Update billing details',
+				body_html: '<p>Coming soon.</p>',
+				is_published: false,
+			},
+		],
+		kb_internal: [
+			{
+				id: 'art_rotate',
+				title: 'Runbook: expired SSO certificate',
+				body_html:
+					'<p>Applies to every plan and region.</p><p>When a customer reports SAML login failures, check whether the certificate expired and ask them to rotate it.</p>',
+				is_published: true,
+			},
+		],
+	};
+
+	return {
+		organization: { id: 'org_1', name: 'Mock Org' },
+		accounts,
+		contacts,
+		issues,
+		messages,
+		followers: { iss_1: [{ id: 'user_fox', email: 'fox@example.com' }] },
+		tags,
+		teams,
+		users,
+		customFields,
+		ticketForms,
+		attachments: [],
+		knowledgeBases,
+		articles,
+	};
+}
+
+/**
+ * Reads a filter field from an entity, following Pylon's nested shapes
+ * (e.g. account_id -> account.id, assignee_id -> assignee.id).
+ */
+function getFieldValue(entity: Entity, field: string): unknown {
+	if (entity[field] !== undefined) {
+		return entity[field];
+	}
+	if (field.endsWith('_id')) {
+		const nested = entity[field.slice(0, -3)] as
+			| { id?: string }
+			| null
+			| undefined;
+		return nested?.id ?? null;
+	}
+	if (field === 'issue_type') {
+		return entity['type'];
+	}
+	if (field === 'resolved_at') {
+		return entity['resolution_time'];
+	}
+	return undefined;
+}
+
+function matchesOperator(
+	value: unknown,
+	op: string,
+	operand: unknown,
+): boolean {
+	const values = Array.isArray(value) ? value : [value];
+	switch (op) {
+		case 'equals':
+			return values.includes(operand);
+		case 'in':
+			return (operand as unknown[]).some((item) => values.includes(item));
+		case 'not_in':
+			return !(operand as unknown[]).some((item) => values.includes(item));
+		case 'contains':
+			return values.includes(operand);
+		case 'does_not_contain':
+			return !values.includes(operand);
+		case 'is_set':
+			return value !== null && value !== undefined;
+		case 'is_unset':
+			return value === null || value === undefined;
+		case 'string_contains':
+			return String(value ?? '')
+				.toLowerCase()
+				.includes(String(operand).toLowerCase());
+		case 'string_does_not_contain':
+			return !String(value ?? '')
+				.toLowerCase()
+				.includes(String(operand).toLowerCase());
+		case 'time_is_after':
+			return typeof value === 'string' && value > String(operand);
+		case 'time_is_before':
+			return typeof value === 'string' && value < String(operand);
+		case 'time_range': {
+			const range = operand as { start: string; end: string };
+			return (
+				typeof value === 'string' && value >= range.start && value < range.end
+			);
+		}
+		default:
+			throw new HttpError(400, `unsupported operator "${op}"`);
+	}
+}
+
+function checkTimeRange(start: string, end: string): void {
+	const startMs = Date.parse(start);
+	const endMs = Date.parse(end);
+	if (Number.isNaN(startMs) || Number.isNaN(endMs)) {
+		throw new HttpError(400, 'invalid time range');
+	}
+	if (endMs - startMs > MAX_TIME_RANGE_MS) {
+		throw new HttpError(400, 'time range cannot exceed 30 days');
+	}
+}
+
+function matchesFilter(
+	entity: Entity,
+	filter: Record<string, unknown>,
+): boolean {
+	for (const [field, condition] of Object.entries(filter)) {
+		if (typeof condition !== 'object' || condition === null) {
+			throw new HttpError(400, `filter for "${field}" must be an object`);
+		}
+		for (const [op, operand] of Object.entries(condition)) {
+			if (op === 'time_range') {
+				const range = operand as { start: string; end: string };
+				checkTimeRange(range.start, range.end);
+			}
+			if (!matchesOperator(getFieldValue(entity, field), op, operand)) {
+				return false;
+			}
+		}
+	}
+	return true;
+}
+
+export class MockPylonServer {
+	readonly state: MockPylonState;
+	readonly requests: RecordedRequest[] = [];
+	private server: Server | undefined;
+	private nextId = 1;
+	private requestCount = 0;
+
+	constructor(state: MockPylonState = createSeedState()) {
+		this.state = state;
+	}
+
+	/**
+	 * Starts listening on a random local port and returns the base URL.
+	 */
+	async start(): Promise<string> {
+		this.server = createServer((req, res) => {
+			this.handle(req, res).catch((error: unknown) => {
+				this.send(res, 500, { errors: [String(error)] });
+			});
+		});
+		await new Promise<void>((resolve) => {
+			this.server?.listen(0, '127.0.0.1', resolve);
+		});
+		const { port } = this.server.address() as AddressInfo;
+		return `http://127.0.0.1:${port}`;
+	}
+
+	async stop(): Promise<void> {
+		await new Promise<void>((resolve, reject) => {
+			this.server?.close((error) => (error ? reject(error) : resolve()));
+		});
+	}
+
+	/** Requests received for a method and path, most recent last */
+	requestsTo(method: string, path: string): RecordedRequest[] {
+		return this.requests.filter((r) => r.method === method && r.path === path);
+	}
+
+	private newId(prefix: string): string {
+		return `${prefix}_new_${this.nextId++}`;
+	}
+
+	private send(res: ServerResponse, status: number, body: object): void {
+		res.writeHead(status, { 'Content-Type': 'application/json' });
+		res.end(
+			JSON.stringify({ ...body, request_id: `req_${++this.requestCount}` }),
+		);
+	}
+
+	private async readBody(req: IncomingMessage): Promise<unknown> {
+		const chunks: Buffer[] = [];
+		for await (const chunk of req) {
+			chunks.push(chunk as Buffer);
+		}
+		const raw = Buffer.concat(chunks);
+		const contentType = req.headers['content-type'] ?? '';
+		if (contentType.startsWith('multipart/form-data')) {
+			// Recorded as plain fields, with files summarized by name, type and size
+			const form = await new Response(raw, {
+				headers: { 'content-type': contentType },
+			}).formData();
+			const fields: Record<string, unknown> = {};
+			for (const [key, value] of form) {
+				fields[key] =
+					typeof value === 'string'
+						? value
+						: { name: value.name, type: value.type, size: value.size };
+			}
+			return fields;
+		}
+		const text = raw.toString('utf8');
+		if (!text) {
+			return undefined;
+		}
+		try {
+			return JSON.parse(text);
+		} catch {
+			throw new HttpError(400, 'invalid JSON body');
+		}
+	}
+
+	private paginate(
+		items: Entity[] | { id: string; email: string }[],
+		limit: unknown,
+		cursor: unknown,
+	) {
+		const offset = cursor ? Number(cursor) : 0;
+		const size = limit ? Number(limit) : DEFAULT_PAGE_SIZE;
+		const page = items.slice(offset, offset + size);
+		const hasNext = offset + size < items.length;
+		return {
+			data: page,
+			pagination: {
+				cursor: hasNext ? String(offset + size) : null,
+				has_next_page: hasNext,
+			},
+		};
+	}
+
+	private find(collection: Entity[], id: string, label: string): Entity {
+		const entity = collection.find(
+			(item) => item.id === id || String(item['number']) === id,
+		);
+		if (!entity) {
+			throw new HttpError(404, `${label} not found`);
+		}
+		return entity;
+	}
+
+	private search(
+		collection: Entity[],
+		body: Record<string, unknown> | undefined,
+	) {
+		const filter = (body?.['filter'] ?? {}) as Record<string, unknown>;
+		const matches = collection.filter((item) => matchesFilter(item, filter));
+		return this.paginate(matches, body?.['limit'], body?.['cursor']);
+	}
+
+	private async handle(
+		req: IncomingMessage,
+		res: ServerResponse,
+	): Promise<void> {
+		const url = new URL(req.url ?? '/', 'http://localhost');
+		const method = req.method ?? 'GET';
+		const body = await this.readBody(req).catch((error: unknown) => error);
+		this.requests.push({
+			method,
+			path: url.pathname,
+			query: Object.fromEntries(url.searchParams),
+			body,
+		});
+
+		try {
+			if (body instanceof HttpError) {
+				throw body;
+			}
+			if (req.headers.authorization !== `Bearer ${MOCK_API_TOKEN}`) {
+				throw new HttpError(401, 'invalid API token');
+			}
+			const result = this.route(
+				method,
+				url.pathname.split('/').filter(Boolean),
+				url.searchParams,
+				body as Record<string, unknown> | undefined,
+			);
+			this.send(res, 200, result);
+		} catch (error) {
+			if (error instanceof HttpError) {
+				this.send(res, error.status, { errors: [error.message] });
+				return;
+			}
+			throw error;
+		}
+	}
+
+	private route(
+		method: string,
+		segments: string[],
+		query: URLSearchParams,
+		body: Record<string, unknown> | undefined,
+	): object {
+		const [resource, id, sub, subId, action] = segments;
+		const s = this.state;
+		const limit = query.get('limit');
+		const cursor = query.get('cursor');
+
+		if (resource === 'custom-fields' && !id && method === 'GET') {
+			const objectType = query.get('object_type');
+			if (!objectType) {
+				throw new HttpError(400, 'object_type is required');
+			}
+			return this.paginate(
+				s.customFields.filter((field) => field['object_type'] === objectType),
+				limit,
+				cursor,
+			);
+		}
+
+		if (resource === 'attachments' && !id && method === 'POST') {
+			const file = body?.['file'] as { name: string } | undefined;
+			if (!file) {
+				throw new HttpError(400, 'file is required');
+			}
+			const attachment: Entity = {
+				id: this.newId('att'),
+				name: file.name,
+				description: body?.['description'],
+			};
+			attachment['url'] =
+				`https://assets.usepylon.com/attachments/${attachment.id}/${file.name}`;
+			s.attachments.push(attachment);
+			return { data: attachment };
+		}
+
+		if (resource === 'knowledge-bases') {
+			if (!id && method === 'GET') {
+				return this.paginate(s.knowledgeBases, limit, cursor);
+			}
+			const kb = id
+				? this.find(s.knowledgeBases, id, 'knowledge base')
+				: undefined;
+			if (kb && sub === 'articles') {
+				const articles = s.articles[kb.id] ?? [];
+				s.articles[kb.id] = articles;
+				if (subId && method === 'GET') {
+					return { data: this.find(articles, subId, 'article') };
+				}
+				if (!subId && method === 'GET') {
+					return this.paginate(articles, limit, cursor);
+				}
+				if (!subId && method === 'POST') {
+					if (!body?.['title'] || !body['author_user_id']) {
+						throw new HttpError(400, 'title and author_user_id are required');
+					}
+					const article: Entity = {
+						id: this.newId('art'),
+						is_published: false,
+						...body,
+					};
+					articles.push(article);
+					return { data: article };
+				}
+			}
+		}
+
+		if (resource === 'ticket-forms' && method === 'GET') {
+			if (id) {
+				return { data: this.find(s.ticketForms, id, 'ticket form') };
+			}
+			return this.paginate(s.ticketForms, limit, cursor);
+		}
+
+		if (resource === 'me' && method === 'GET') {
+			return { data: s.organization };
+		}
+
+		if (resource === 'issues') {
+			if (!id) {
+				if (method === 'GET') {
+					const start = query.get('start_time');
+					const end = query.get('end_time');
+					if (!start || !end) {
+						throw new HttpError(400, 'start_time and end_time are required');
+					}
+					checkTimeRange(start, end);
+					const inRange = s.issues.filter((issue) => {
+						const created = String(issue['created_at']);
+						return created >= start && created < end;
+					});
+					return this.paginate(inRange, limit, cursor);
+				}
+				if (method === 'POST') {
+					if (!body?.['title'] || body['body_html'] === undefined) {
+						throw new HttpError(400, 'title and body_html are required');
+					}
+					const number = 1000 + s.issues.length + 1;
+					const issue: Entity = {
+						id: this.newId('iss'),
+						number,
+						state: 'new',
+						link: `https://app.usepylon.com/issues?issueNumber=${number}`,
+						created_at: new Date().toISOString(),
+						tags: [],
+						...body,
+					};
+					s.issues.push(issue);
+					return { data: issue };
+				}
+			}
+			if (id === 'search' && method === 'POST') {
+				return this.search(s.issues, body);
+			}
+			if (id) {
+				const issue = this.find(s.issues, id, 'issue');
+				if (!sub) {
+					if (method === 'GET') return { data: issue };
+					if (method === 'PATCH') {
+						Object.assign(issue, body);
+						return { data: issue };
+					}
+					if (method === 'DELETE') {
+						s.issues.splice(s.issues.indexOf(issue), 1);
+						return { data: { success: true } };
+					}
+				}
+				if (sub === 'snooze' && method === 'POST') {
+					issue['snoozed_until'] = body?.['snooze_until'];
+					return { data: issue };
+				}
+				if (sub === 'followers') {
+					const followers = s.followers[issue.id] ?? [];
+					s.followers[issue.id] = followers;
+					if (method === 'GET') {
+						return this.paginate(followers, limit, cursor);
+					}
+					if (method === 'POST') {
+						const ids = [
+							...((body?.['user_ids'] as string[]) ?? []),
+							...((body?.['contact_ids'] as string[]) ?? []),
+						];
+						if (body?.['operation'] === 'remove') {
+							s.followers[issue.id] = followers.filter(
+								(f) => !ids.includes(f.id),
+							);
+						} else {
+							for (const followerId of ids) {
+								const person =
+									s.users.find((u) => u.id === followerId) ??
+									s.contacts.find((c) => c.id === followerId);
+								if (!person) {
+									throw new HttpError(404, `follower ${followerId} not found`);
+								}
+								followers.push({
+									id: followerId,
+									email: String(person['email']),
+								});
+							}
+						}
+						return { data: { success: true } };
+					}
+				}
+				if ((sub === 'reply' || sub === 'note') && method === 'POST') {
+					if (!body?.['body_html']) {
+						throw new HttpError(400, 'body_html is required');
+					}
+					const messages = s.messages[issue.id] ?? [];
+					s.messages[issue.id] = messages;
+					const replyTo = body['message_id'];
+					if (sub === 'reply' && !replyTo) {
+						throw new HttpError(400, 'message_id is required');
+					}
+					if (replyTo) {
+						this.find(messages, String(replyTo), 'message');
+					}
+					// The API token belongs to the first user
+					const author = s.users[0];
+					const message: Entity = {
+						id: this.newId('msg'),
+						message_html: body['body_html'],
+						author: {
+							name: author?.['name'],
+							user: { id: author?.id, email: author?.['email'] },
+						},
+						is_private: sub === 'note',
+						source: sub === 'reply' ? 'email' : 'app',
+						thread_id:
+							sub === 'reply'
+								? 'thread_1'
+								: (body['thread_id'] ?? 'thread_internal'),
+						timestamp: new Date().toISOString(),
+						file_urls: body['attachment_urls'] ?? [],
+					};
+					messages.push(message);
+					return { data: message };
+				}
+				if (sub === 'messages') {
+					const messages = s.messages[issue.id] ?? [];
+					if (!subId && method === 'GET') {
+						return this.paginate(messages, limit, cursor);
+					}
+					if (subId && action === 'redact' && method === 'POST') {
+						const message = this.find(messages, subId, 'message');
+						message['message_html'] = '<p>[redacted]</p>';
+						return { data: message };
+					}
+				}
+			}
+		}
+
+		const collections: Record<string, [Entity[], string, string]> = {
+			accounts: [s.accounts, 'acc', 'name'],
+			contacts: [s.contacts, 'con', 'name'],
+			tags: [s.tags, 'tag', 'value'],
+			teams: [s.teams, 'team', 'name'],
+			users: [s.users, 'user', 'email'],
+		};
+		const entry = resource ? collections[resource] : undefined;
+		if (entry) {
+			const [collection, prefix, requiredField] = entry;
+			const label = resource?.slice(0, -1) ?? 'resource';
+			if (!id) {
+				if (method === 'GET') {
+					return this.paginate(collection, limit, cursor);
+				}
+				if (method === 'POST') {
+					if (resource !== 'teams' && !body?.[requiredField]) {
+						throw new HttpError(400, `${requiredField} is required`);
+					}
+					const entity: Entity = { id: this.newId(prefix), ...body };
+					if (resource === 'teams') {
+						entity['users'] = ((body?.['user_ids'] as string[]) ?? []).map(
+							(userId) => ({
+								id: userId,
+								email: String(s.users.find((u) => u.id === userId)?.['email']),
+							}),
+						);
+						delete entity['user_ids'];
+					}
+					collection.push(entity);
+					return { data: entity };
+				}
+			}
+			if (id === 'search' && method === 'POST') {
+				return this.search(collection, body);
+			}
+			if (id) {
+				const entity = this.find(collection, id, label);
+				if (method === 'GET') return { data: entity };
+				if (method === 'PATCH') {
+					const { user_ids, ...rest } = body ?? {};
+					Object.assign(entity, rest);
+					if (user_ids) {
+						entity['users'] = (user_ids as string[]).map((userId) => ({
+							id: userId,
+							email: String(s.users.find((u) => u.id === userId)?.['email']),
+						}));
+					}
+					return { data: entity };
+				}
+				if (method === 'DELETE') {
+					collection.splice(collection.indexOf(entity), 1);
+					return { data: { success: true } };
+				}
+			}
+		}
+
+		throw new HttpError(404, `no route for ${method} /${segments.join('/')}`);
+	}
+}
@@ -0,0 +1,535 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+	createPylonApiError,
+	PylonAuthError,
+	PylonNotFoundError,
+	PylonRateLimitError,
+	PylonValidationError,
+} from '../src/errors.js';
+import {
+	describeDroppedOperators,
+	findDroppedFilterOperators,
+	PylonClient,
+	splitTimeRange,
+	UnsupportedFilterOperatorError,
+} from '../src/pylon-client.js';
+import { isIdempotentRequest, parseRetryAfter } from '../src/retry.js';
+
+function jsonResponse(
+	status: number,
+	body: unknown,
+	headers: Record<string, string> = {},
+): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json', ...headers },
+	});
+}
+
+describe('PylonClient transport', () => {
+	it('should use the configured base URL and fetch implementation', async () => {
+		const fetchMock = vi.fn<typeof fetch>(async () =>
+			jsonResponse(200, { data: { id: 'org_1', name: 'Acme' } }),
+		);
+		const client = new PylonClient({
+			apiToken: 'test-token',
+			baseUrl: 'http://localhost:4010/',
+			fetch: fetchMock,
+		});
+
+		await client.getMe();
+		expect(fetchMock).toHaveBeenCalledWith(
+			'http://localhost:4010/me',
+			expect.objectContaining({
+				method: 'GET',
+				headers: expect.objectContaining({
+					Authorization: 'Bearer test-token',
+				}),
+			}),
+		);
+	});
+
+	it('should only log rate limiter waits in debug mode', async () => {
+		const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const fetchMock = vi.fn<typeof fetch>(async () =>
+			jsonResponse(200, { data: { id: 'org_1', name: 'Acme' } }),
+		);
+		for (const debug of [false, true]) {
+			const client = new PylonClient({
+				apiToken: 'test-token',
+				fetch: fetchMock,
+				rateLimit: { maxConcurrency: 1 },
+				debug,
+			});
+			await Promise.all([client.getMe(), client.getMe()]);
+			expect(
+				log.mock.calls.some(([message]) =>
+					String(message).includes('rate limiter: waited'),
+				),
+			).toBe(debug);
+		}
+		log.mockRestore();
+	});
+});
+
+describe('PylonClient retries', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	function createClient() {
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		return new PylonClient({
+			apiToken: 'test-token',
+			maxRetries: 2,
+			retryBaseDelayMs: 1,
+			maxRetryDelayMs: 50,
+		});
+	}
+
+	it('should retry idempotent requests on 502', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(jsonResponse(502, { errors: ['bad gateway'] }))
+			.mockResolvedValueOnce(jsonResponse(200, { data: { id: 'org_1' } }));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const result = await createClient().getMe();
+		expect(result.data.id).toBe('org_1');
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('should retry search POSTs', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(jsonResponse(503, {}))
+			.mockResolvedValueOnce(
+				jsonResponse(200, {
+					data: [],
+					pagination: { cursor: null, has_next_page: false },
+				}),
+			);
+		vi.stubGlobal('fetch', fetchMock);
+
+		await createClient().searchAccounts({});
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('should never retry resource creation', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockImplementation(async () =>
+				jsonResponse(502, { errors: ['bad gateway'] }),
+			);
+		vi.stubGlobal('fetch', fetchMock);
+
+		await expect(
+			createClient().createIssue({ title: 'Test', body_html: '<p>hi</p>' }),
+		).rejects.toThrow('502');
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('should give up after maxRetries', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockImplementation(async () => jsonResponse(500, {}));
+		vi.stubGlobal('fetch', fetchMock);
+
+		await expect(createClient().getTag('tag_1')).rejects.toThrow('500');
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it('should not retry client errors', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockImplementation(async () => jsonResponse(404, {}));
+		vi.stubGlobal('fetch', fetchMock);
+
+		await expect(createClient().getTag('tag_1')).rejects.toThrow(
+			PylonNotFoundError,
+		);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('should give up when Retry-After exceeds the max delay', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockImplementation(async () =>
+				jsonResponse(429, {}, { 'Retry-After': '60' }),
+			);
+		vi.stubGlobal('fetch', fetchMock);
+
+		await expect(createClient().getTag('tag_1')).rejects.toThrow('429');
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('PylonClient errors', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	const client = new PylonClient({ apiToken: 'test-token', maxRetries: 0 });
+
+	it('should describe missing resources', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi
+				.fn()
+				.mockImplementation(async () =>
+					jsonResponse(404, { errors: ['not found'], request_id: 'req_1' }),
+				),
+		);
+
+		const error = await client.getIssue('1234').catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(PylonNotFoundError);
+		expect((error as PylonNotFoundError).message).toBe(
+			'Issue 1234 not found (request_id: req_1)',
+		);
+		expect((error as PylonNotFoundError).requestId).toBe('req_1');
+		expect((error as PylonNotFoundError).status).toBe(404);
+	});
+
+	it('should name missing resources from nested and search paths', () => {
+		const notFound = (path: string) =>
+			createPylonApiError({
+				status: 404,
+				statusText: 'Not Found',
+				method: 'GET',
+				path,
+				body: '',
+			}).message;
+		expect(notFound('/issues/1234/followers')).toBe('Issue 1234 not found');
+		expect(notFound('/knowledge-bases/kb_1/articles/a_1')).toBe(
+			'Article a_1 not found',
+		);
+		expect(notFound('/knowledge-bases/kb_1')).toBe(
+			'Knowledge base kb_1 not found',
+		);
+		expect(notFound('/issues/search')).toBe('Issue search endpoint not found');
+		expect(notFound('/me')).toBe('Me not found');
+	});
+
+	it('should map auth, validation and rate limit responses', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockImplementationOnce(async () => jsonResponse(403, {}))
+			.mockImplementationOnce(async () =>
+				jsonResponse(400, { errors: ['title is required'] }),
+			)
+			.mockImplementationOnce(async () =>
+				jsonResponse(429, {}, { 'Retry-After': '3' }),
+			);
+		vi.stubGlobal('fetch', fetchMock);
+
+		await expect(client.getMe()).rejects.toThrow(PylonAuthError);
+		await expect(
+			client.createIssue({ title: '', body_html: '' }),
+		).rejects.toThrow(/title is required/);
+		const error = await client.getMe().catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(PylonRateLimitError);
+		expect((error as PylonRateLimitError).retryAfterMs).toBe(3000);
+	});
+
+	it('should keep non-JSON error bodies as text', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi
+				.fn()
+				.mockImplementation(
+					async () => new Response('bad input', { status: 422 }),
+				),
+		);
+
+		const error = await client.getMe().catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(PylonValidationError);
+		expect((error as PylonValidationError).apiMessages).toEqual(['bad input']);
+	});
+});
+
+describe('PylonClient.paginate', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	function pagedFetch(pages: { id: string }[][]) {
+		return vi.fn().mockImplementation(async (url: string) => {
+			const cursor = new URL(url).searchParams.get('cursor');
+			const index = cursor ? Number(cursor) : 0;
+			const hasNext = index + 1 < pages.length;
+			return jsonResponse(200, {
+				data: pages[index],
+				pagination: {
+					cursor: hasNext ? String(index + 1) : null,
+					has_next_page: hasNext,
+				},
+			});
+		});
+	}
+
+	it('should follow cursors until the last page', async () => {
+		const fetchMock = pagedFetch([[{ id: 'a' }, { id: 'b' }], [{ id: 'c' }]]);
+		vi.stubGlobal('fetch', fetchMock);
+		const client = new PylonClient({ apiToken: 'test-token' });
+
+		const ids: string[] = [];
+		for await (const tag of client.paginate((page) => client.listTags(page))) {
+			ids.push(tag.id);
+		}
+		expect(ids).toEqual(['a', 'b', 'c']);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('should stop at maxItems without fetching further pages', async () => {
+		const fetchMock = pagedFetch([[{ id: 'a' }, { id: 'b' }], [{ id: 'c' }]]);
+		vi.stubGlobal('fetch', fetchMock);
+		const client = new PylonClient({ apiToken: 'test-token' });
+
+		const ids: string[] = [];
+		for await (const team of client.paginate((page) => client.listTeams(page), {
+			maxItems: 2,
+			pageSize: 2,
+		})) {
+			ids.push(team.id);
+		}
+		expect(ids).toEqual(['a', 'b']);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(fetchMock.mock.calls[0]?.[0]).toContain('limit=2');
+	});
+});
+
+describe('time windows', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	it('should split long ranges into 30-day windows', () => {
+		const windows = splitTimeRange(
+			'2025-01-01T00:00:00Z',
+			'2025-03-15T00:00:00Z',
+		);
+		expect(windows).toEqual([
+			{ start: '2025-01-01T00:00:00.000Z', end: '2025-01-31T00:00:00.000Z' },
+			{ start: '2025-01-31T00:00:00.000Z', end: '2025-03-02T00:00:00.000Z' },
+			{ start: '2025-03-02T00:00:00.000Z', end: '2025-03-15T00:00:00.000Z' },
+		]);
+	});
+
+	it('should merge, dedupe and sort issues across windows', async () => {
+		const issues = [
+			{ id: 'c', created_at: '2025-02-20T00:00:00Z' },
+			{ id: 'a', created_at: '2025-01-05T00:00:00Z' },
+			{ id: 'b', created_at: '2025-01-30T23:00:00Z' },
+		];
+		const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+			const params = new URL(url).searchParams;
+			const start = params.get('start_time') ?? '';
+			const end = params.get('end_time') ?? '';
+			// Include the boundary issue in both windows to exercise deduping
+			const data = issues.filter(
+				(issue) =>
+					issue.id === 'b' ||
+					(issue.created_at >= start && issue.created_at < end),
+			);
+			return jsonResponse(200, {
+				data,
+				pagination: { cursor: null, has_next_page: false },
+			});
+		});
+		vi.stubGlobal('fetch', fetchMock);
+		const client = new PylonClient({ apiToken: 'test-token' });
+
+		const result = await client.listIssuesInWindows(
+			'2025-01-01T00:00:00Z',
+			'2025-03-01T00:00:00Z',
+			{ parallel: true },
+		);
+		expect(result.windows).toBe(2);
+		expect(result.truncated).toBe(false);
+		expect(result.data.map((issue) => issue.id)).toEqual(['a', 'b', 'c']);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('should chunk long search time_range filters', async () => {
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		const fetchMock = vi.fn().mockImplementation(async () =>
+			jsonResponse(200, {
+				data: [],
+				pagination: { cursor: null, has_next_page: false },
+			}),
+		);
+		vi.stubGlobal('fetch', fetchMock);
+		const client = new PylonClient({ apiToken: 'test-token' });
+
+		await client.searchIssuesInWindows({
+			state: { equals: 'new' },
+			created_at: {
+				time_range: {
+					start: '2025-01-01T00:00:00Z',
+					end: '2025-04-01T00:00:00Z',
+				},
+			},
+		});
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+		const bodies = fetchMock.mock.calls.map(
+			(call) => JSON.parse((call[1] as RequestInit).body as string).filter,
+		);
+		expect(bodies[0].state).toEqual({ equals: 'new' });
+		expect(bodies[2].created_at.time_range.end).toBe(
+			'2025-04-01T00:00:00.000Z',
+		);
+	});
+});
+
+describe('filter validation', () => {
+	it('should report dropped operators with suggestions', () => {
+		expect(
+			findDroppedFilterOperators('issue', {
+				state: { equals: 'new', eq: 'closed' },
+				created_at: { gte: '2025-01-01T00:00:00Z' },
+				title: { Contains: 'login' },
+				priority: { sort: 'asc' },
+				unknown_field: { anything: 1 },
+			}),
+		).toEqual([
+			expect.objectContaining({
+				field: 'state',
+				operator: 'eq',
+				suggestion: 'equals',
+			}),
+			expect.objectContaining({
+				field: 'created_at',
+				operator: 'gte',
+				suggestion: 'time_is_after',
+			}),
+			expect.objectContaining({
+				field: 'title',
+				operator: 'Contains',
+				suggestion: 'string_contains',
+			}),
+			{
+				field: 'priority',
+				operator: 'sort',
+				suggestion: undefined,
+				supported: ['equals', 'in', 'not_in'],
+			},
+			expect.objectContaining({
+				field: 'unknown_field',
+				suggestion: undefined,
+			}),
+		]);
+	});
+
+	it('should report unknown fields with the closest searchable field', () => {
+		const dropped = findDroppedFilterOperators('issue', {
+			prioirty: { equals: 'urgent' },
+			assignee: { equals: 'user_1' },
+			or: [{ tag: { contains: 'outage' } }],
+		});
+		expect(dropped).toEqual([
+			expect.objectContaining({ field: 'prioirty', suggestion: 'priority' }),
+			expect.objectContaining({ field: 'assignee', suggestion: 'assignee_id' }),
+			expect.objectContaining({ field: 'or[0].tag', suggestion: 'tags' }),
+		]);
+		expect(dropped.every((item) => item.operator === undefined)).toBe(true);
+		expect(
+			describeDroppedOperators(
+				findDroppedFilterOperators('contact', { name: { equals: 'Alice' } }),
+			),
+		).toBe(
+			'- name: not a searchable field; searchable fields are id, email, account_id',
+		);
+	});
+
+	it('should drop unsupported operators in lenient mode', async () => {
+		const fetchMock = vi.fn<typeof fetch>(async () =>
+			jsonResponse(200, { data: [] }),
+		);
+		const client = new PylonClient({
+			apiToken: 'test-token',
+			fetch: fetchMock,
+		});
+		await client.searchAccounts({
+			name: { string_contains: 'acme', like: 'acme' },
+		});
+		const body = JSON.parse(fetchMock.mock.calls[0]?.[1]?.body as string);
+		expect(body.filter).toEqual({ name: { string_contains: 'acme' } });
+	});
+
+	it('should reject unsupported operators in strict mode', async () => {
+		const fetchMock = vi.fn<typeof fetch>();
+		const client = new PylonClient({
+			apiToken: 'test-token',
+			fetch: fetchMock,
+			filterValidation: 'strict',
+		});
+		const search = client.searchIssues({
+			created_at: { gte: '2025-01-01T00:00:00Z' },
+		});
+		await expect(search).rejects.toThrow(UnsupportedFilterOperatorError);
+		await expect(search).rejects.toThrow('- created_at.gte: use time_is_after');
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it('should check compound filters up front in strict mode', () => {
+		const filter = {
+			or: [{ priorty: { equals: 'urgent' } }, { tags: { contains: 'x' } }],
+		};
+		const lenient = new PylonClient({ apiToken: 'test-token' });
+		expect(() => lenient.checkFilter('issue', filter)).not.toThrow();
+		const strict = new PylonClient({
+			apiToken: 'test-token',
+			filterValidation: 'strict',
+		});
+		expect(() => strict.checkFilter('issue', filter)).toThrow(
+			'- or[0].priorty: not a searchable field, use priority',
+		);
+	});
+
+	it('should drop unknown fields, or reject them in strict mode', async () => {
+		const fetchMock = vi.fn<typeof fetch>(async () =>
+			jsonResponse(200, { data: [] }),
+		);
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		const lenient = new PylonClient({
+			apiToken: 'test-token',
+			fetch: fetchMock,
+		});
+		await lenient.searchContacts({
+			email: { string_contains: '@acme.com' },
+			name: { string_contains: 'alice' },
+		});
+		const body = JSON.parse(fetchMock.mock.calls[0]?.[1]?.body as string);
+		expect(body.filter).toEqual({ email: { string_contains: '@acme.com' } });
+
+		const strict = new PylonClient({
+			apiToken: 'test-token',
+			fetch: fetchMock,
+			filterValidation: 'strict',
+		});
+		await expect(
+			strict.searchIssues({ prioirty: { equals: 'urgent' } }),
+		).rejects.toThrow('- prioirty: not a searchable field, use priority');
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		vi.restoreAllMocks();
+	});
+});
+
+describe('retry helpers', () => {
+	it('should classify idempotent requests', () => {
+		expect(isIdempotentRequest('GET', '/issues')).toBe(true);
+		expect(isIdempotentRequest('PATCH', '/issues/1')).toBe(true);
+		expect(isIdempotentRequest('POST', '/issues/search')).toBe(true);
+		expect(isIdempotentRequest('POST', '/issues')).toBe(false);
+		expect(isIdempotentRequest('POST', '/accounts')).toBe(false);
+	});
+
+	it('should parse Retry-After seconds and dates', () => {
+		expect(parseRetryAfter(429, '2')).toBe(2000);
+		expect(parseRetryAfter(503, 'Thu, 01 Jan 1970 00:00:05 GMT', 0)).toBe(5000);
+		expect(parseRetryAfter(500, '2')).toBeUndefined();
+		expect(parseRetryAfter(429, null)).toBeUndefined();
+	});
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RateLimiter } from '../src/rate-limiter.js';
+
+function deferred() {
+	let resolve: () => void = () => {};
+	const promise = new Promise<void>((r) => {
+		resolve = r;
+	});
+	return { promise, resolve };
+}
+
+describe('RateLimiter', () => {
+	it('should cap concurrent tasks', async () => {
+		const limiter = new RateLimiter({
+			requestsPerSecond: 0,
+			maxConcurrency: 2,
+		});
+		let running = 0;
+		let peak = 0;
+		const gates = [deferred(), deferred(), deferred()];
+
+		const tasks = gates.map((gate) =>
+			limiter.schedule(async () => {
+				running++;
+				peak = Math.max(peak, running);
+				await gate.promise;
+				running--;
+			}),
+		);
+
+		await Promise.resolve();
+		expect(limiter.queueDepth).toBe(1);
+		for (const gate of gates) gate.resolve();
+		await Promise.all(tasks);
+		expect(peak).toBe(2);
+		expect(limiter.queueDepth).toBe(0);
+	});
+
+	it('should queue requests beyond the burst until tokens refill', async () => {
+		vi.useFakeTimers();
+		try {
+			const onWait = vi.fn();
+			const limiter = new RateLimiter({
+				requestsPerSecond: 10,
+				burst: 2,
+				maxConcurrency: 0,
+				onWait,
+			});
+			const completed: number[] = [];
+			const tasks = [0, 1, 2].map((i) =>
+				limiter.schedule(async () => {
+					completed.push(i);
+				}),
+			);
+
+			await vi.advanceTimersByTimeAsync(0);
+			expect(completed).toEqual([0, 1]);
+
+			await vi.advanceTimersByTimeAsync(100);
+			await Promise.all(tasks);
+			expect(completed).toEqual([0, 1, 2]);
+			expect(onWait).toHaveBeenCalledWith({ waitedMs: 100, queueDepth: 0 });
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+});
@@ -0,0 +1,197 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { PylonNotFoundError } from '../src/errors.js';
+import { PylonClient } from '../src/pylon-client.js';
+import {
+	toAccountMinimal,
+	toContactMinimal,
+	toIssueMinimal,
+	toIssueStandard,
+	toTeamMinimal,
+} from '../src/schemas.js';
+import { Cassette, cassetteModeFromEnv, scrub } from './cassette.js';
+import { MOCK_API_TOKEN, MockPylonServer } from './mock-pylon-server.js';
+
+/**
+ * Replays Pylon responses through PylonClient and the schema transforms, so
+ * changes in real response shapes (e.g. nested assignee objects) are caught
+ * offline. The checked-in fixture is synthetic: written by hand in the shape of
+ * Pylon's responses rather than recorded. Assertions are shape-based so it can
+ * be replaced by a recording against any org.
+ */
+describe('replayed Pylon responses', () => {
+	const mode = cassetteModeFromEnv();
+	const apiToken =
+		mode === 'record' ? (process.env['PYLON_API_TOKEN'] ?? '') : 'replay-token';
+	let cassette: Cassette;
+	let client: PylonClient;
+
+	beforeAll(async () => {
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		cassette = await Cassette.open(
+			join(import.meta.dirname, 'fixtures', 'pylon-client.json'),
+			mode,
+			[apiToken],
+		);
+		client = new PylonClient({
+			apiToken,
+			fetch: cassette.fetch,
+			maxRetries: 0,
+		});
+	});
+
+	afterAll(async () => {
+		await cassette.save();
+		vi.restoreAllMocks();
+	});
+
+	it('getMe', async () => {
+		const result = await client.getMe();
+		expect(result.data).toEqual({
+			id: expect.any(String),
+			name: expect.any(String),
+		});
+	});
+
+	it('listAccounts -> toAccountMinimal', async () => {
+		const result = await client.listAccounts({ limit: 2 });
+		for (const raw of result.data) {
+			const account = toAccountMinimal(
+				raw as unknown as Record<string, unknown>,
+			);
+			expect(account.id).toEqual(expect.any(String));
+			expect(account.name).toEqual(expect.any(String));
+			// owner is a nested object in real responses
+			const owner = (raw as unknown as Record<string, unknown>)['owner'] as {
+				id: string;
+			} | null;
+			expect(account.owner_id ?? null).toBe(owner?.id ?? null);
+		}
+	});
+
+	it('listContacts -> toContactMinimal', async () => {
+		const result = await client.listContacts({ limit: 2 });
+		for (const raw of result.data) {
+			const contact = toContactMinimal(
+				raw as unknown as Record<string, unknown>,
+			);
+			expect(contact.id).toEqual(expect.any(String));
+			expect(contact.account_id ?? null).toBe(raw.account?.id ?? null);
+		}
+	});
+
+	it('searchIssues matches on the cleaned filter -> toIssueMinimal', async () => {
+		// gte is not a Pylon operator; cleanFilter drops it before the request is sent
+		const result = await client.searchIssues(
+			{
+				state: { not_in: ['closed'] },
+				created_at: { gte: '2025-01-01T00:00:00Z' },
+			},
+			{ limit: 2 },
+		);
+		for (const raw of result.data) {
+			const record = raw as unknown as Record<string, unknown>;
+			const issue = toIssueMinimal(record);
+			expect(issue).toMatchObject({
+				id: expect.any(String),
+				number: expect.any(Number),
+				title: expect.any(String),
+				state: expect.any(String),
+				link: expect.any(String),
+			});
+			const assignee = record['assignee'] as { id: string } | null;
+			expect(issue.assignee_id ?? null).toBe(assignee?.id ?? null);
+
+			const standard = toIssueStandard(record);
+			const team = record['team'] as { id: string } | null;
+			expect(standard.team_id ?? null).toBe(team?.id ?? null);
+		}
+	});
+
+	it('listTeams -> toTeamMinimal', async () => {
+		const result = await client.listTeams({ limit: 2 });
+		for (const raw of result.data) {
+			const team = toTeamMinimal(raw as unknown as Record<string, unknown>);
+			expect(team.member_count).toBe(raw.users.length);
+		}
+	});
+
+	it('getIssue for a missing issue', async () => {
+		await expect(client.getIssue('999999')).rejects.toThrow(PylonNotFoundError);
+	});
+});
+
+describe('Cassette', () => {
+	it('should record against a server and replay offline', async () => {
+		const dir = await mkdtemp(join(tmpdir(), 'pylon-cassette-'));
+		const path = join(dir, 'cassette.json');
+		const mock = new MockPylonServer();
+		const baseUrl = await mock.start();
+		try {
+			const recorder = await Cassette.open(path, 'record', [MOCK_API_TOKEN]);
+			const recording = new PylonClient({
+				apiToken: MOCK_API_TOKEN,
+				baseUrl,
+				fetch: recorder.fetch,
+				maxRetries: 0,
+			});
+			const recorded = await recording.listContacts({ limit: 1 });
+			await recorder.save();
+			await mock.stop();
+
+			const file = await readFile(path, 'utf8');
+			expect(file).not.toContain(MOCK_API_TOKEN);
+			expect(file).not.toContain('alice@acme.com');
+			expect(file).not.toContain('Alice Smith');
+
+			const player = await Cassette.open(path, 'replay');
+			const replaying = new PylonClient({
+				apiToken: 'anything',
+				baseUrl,
+				fetch: player.fetch,
+				maxRetries: 0,
+			});
+			const replayed = await replaying.listContacts({ limit: 1 });
+			expect(replayed.data[0]?.id).toBe(recorded.data[0]?.id);
+			expect(replayed.data[0]?.email).toMatch(
+				/^user-[0-9a-f]{8}@example\.com$/,
+			);
+
+			await expect(replaying.listContacts({ limit: 5 })).rejects.toThrow(
+				/No recorded interaction .* for:\n {2}GET \/contacts\?limit=5/,
+			);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it('should scrub nested people and free text', () => {
+		const scrubbed = scrub({
+			title: 'Alice cannot log in',
+			author: {
+				name: 'Alice Smith',
+				contact: { id: 'con_1', name: 'Alice Smith', email: 'a@acme.com' },
+			},
+			requester: { id: 'con_1', name: 'Alice Smith' },
+			account: { id: 'acc_1', name: 'Acme Corp' },
+		});
+		const text = JSON.stringify(scrubbed);
+		expect(text).not.toContain('Alice');
+		expect(text).toContain('Acme Corp');
+		expect(scrubbed).toMatchObject({
+			title: expect.stringMatching(/^\[REDACTED [0-9a-f]{8}\]$/),
+			author: { contact: { id: 'con_1' } },
+		});
+	});
+
+	it('should scrub emails consistently', () => {
+		const scrubbed = scrub({
+			author: { name: 'Dana', email: 'dana@example.com' },
+			text: 'contact dana@example.com',
+		}) as { author: { name: string; email: string }; text: string };
+		expect(scrubbed.author.name).toMatch(/^Person [0-9a-f]{8}$/);
+		expect(scrubbed.text).toBe(`contact ${scrubbed.author.email}`);
+	});
+});
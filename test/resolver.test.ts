@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PylonClient } from '../src/pylon-client.js';
+import {
+	AmbiguousReferenceError,
+	parseIssueNumber,
+	Resolver,
+	UnresolvedReferenceError,
+} from '../src/resolver.js';
+import { MOCK_API_TOKEN, MockPylonServer } from './mock-pylon-server.js';
+
+describe('Resolver', () => {
+	let mock: MockPylonServer;
+	let resolver: Resolver;
+
+	beforeEach(async () => {
+		mock = new MockPylonServer();
+		const client = new PylonClient({
+			apiToken: MOCK_API_TOKEN,
+			baseUrl: await mock.start(),
+			maxRetries: 0,
+			rateLimit: { requestsPerSecond: 0, maxConcurrency: 0 },
+		});
+		resolver = new Resolver(client);
+	});
+
+	afterEach(async () => {
+		await mock.stop();
+	});
+
+	it('should resolve users by ID, email, name and unique partial name', async () => {
+		expect(await resolver.resolveUser('user_fox')).toBe('user_fox');
+		expect(await resolver.resolveUser('DANA@example.com')).toBe('user_dana');
+		expect(await resolver.resolveUser('walter skinner')).toBe('user_walter');
+		expect(await resolver.resolveUser('Mulder')).toBe('user_fox');
+		// The directory is fetched once and cached
+		expect(mock.requestsTo('GET', '/users')).toHaveLength(1);
+	});
+
+	it('should look up IDs missing from the cached directories', async () => {
+		await resolver.resolveUser('user_fox');
+		await resolver.resolveTeam('Support');
+		mock.state.users.push({ id: 'user_new', email: 'new@example.com' });
+		mock.state.teams.push({ id: 'team_new', name: 'Tier 2', users: [] });
+		expect(await resolver.resolveUser('user_new')).toBe('user_new');
+		expect(await resolver.resolveTeam('team_new')).toBe('team_new');
+		await expect(resolver.resolveUser('user_gone')).rejects.toThrow(
+			UnresolvedReferenceError,
+		);
+		// Names with spaces can't be IDs, so they aren't looked up
+		await expect(resolver.resolveTeam('Tier 2')).rejects.toThrow(
+			UnresolvedReferenceError,
+		);
+		expect(
+			mock.requests.filter((request) => request.path.startsWith('/teams/')),
+		).toHaveLength(1);
+	});
+
+	it('should list candidates for ambiguous references', async () => {
+		const error = await resolver.resolveUser('a').catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(AmbiguousReferenceError);
+		expect((error as AmbiguousReferenceError).candidates).toEqual([
+			{ id: 'user_dana', label: 'Dana Scully <dana@example.com>' },
+			{ id: 'user_walter', label: 'Walter Skinner <walter@example.com>' },
+		]);
+	});
+
+	it('should not fall back to partial matches for emails', async () => {
+		await expect(resolver.resolveUser('dana@example.org')).rejects.toThrow(
+			UnresolvedReferenceError,
+		);
+	});
+
+	it('should resolve teams by name', async () => {
+		expect(await resolver.resolveTeam('Support')).toBe('team_support');
+		await expect(resolver.resolveTeam('Sales')).rejects.toThrow(
+			'No team matches "Sales". Use pylon_list_teams to see team names.',
+		);
+	});
+
+	it('should resolve accounts by name, domain or ID', async () => {
+		expect(await resolver.resolveAccount('Acme Corp')).toBe('acc_acme');
+		expect(await resolver.resolveAccount('globex.io')).toBe('acc_globex');
+		expect(await resolver.resolveAccount('acc_globex')).toBe('acc_globex');
+		await expect(resolver.resolveAccount('Initech')).rejects.toThrow(
+			UnresolvedReferenceError,
+		);
+		// Names that aren't IDs never end up in a request path
+		await expect(resolver.resolveAccount('Initech / East')).rejects.toThrow(
+			UnresolvedReferenceError,
+		);
+		expect(
+			mock.requests.filter((request) => request.path.includes('East')),
+		).toEqual([]);
+	});
+
+	it('should resolve contacts by email and pass IDs through', async () => {
+		expect(await resolver.resolveContact('bob@globex.com')).toBe('con_bob');
+		expect(await resolver.resolveContact('con_alice')).toBe('con_alice');
+	});
+
+	it('should resolve issues by number or URL', async () => {
+		expect(await resolver.resolveIssue('#1003')).toBe('iss_3');
+		expect(
+			await resolver.resolveIssue(
+				'https://app.usepylon.com/issues/views/all?issueNumber=1004',
+			),
+		).toBe('iss_4');
+		expect(
+			await resolver.resolveIssue('https://app.usepylon.com/issues/iss_5'),
+		).toBe('iss_5');
+		expect(await resolver.resolveIssue('iss_1')).toBe('iss_1');
+		expect(await resolver.resolveIssue('1003')).toBe('iss_3');
+		expect(mock.requestsTo('GET', '/issues/1003')).toHaveLength(1);
+	});
+
+	it('should encode raw issue IDs and reject malformed URLs', async () => {
+		expect(await resolver.resolveIssue('iss_1/../teams')).toBe(
+			'iss_1%2F..%2Fteams',
+		);
+		await expect(resolver.resolveIssue('https://[bad')).rejects.toThrow(
+			new UnresolvedReferenceError(
+				'issue',
+				'https://[bad',
+				'It looks like a URL but is malformed. Pass the issue number, ID or a Pylon issue URL.',
+			),
+		);
+		expect(mock.requests).toHaveLength(0);
+	});
+
+	it('should not cache failed lookups', async () => {
+		await expect(resolver.resolveIssue('9999')).rejects.toThrow(
+			UnresolvedReferenceError,
+		);
+		await expect(resolver.resolveIssue('9999')).rejects.toThrow();
+		expect(mock.requestsTo('GET', '/issues/9999')).toHaveLength(2);
+	});
+});
+
+describe('parseIssueNumber', () => {
+	it('should parse numbers and issueNumber URLs', () => {
+		expect(parseIssueNumber('42')).toBe(42);
+		expect(parseIssueNumber(' #42 ')).toBe(42);
+		expect(
+			parseIssueNumber('https://app.usepylon.com/issues?issueNumber=42'),
+		).toBe(42);
+		expect(parseIssueNumber('iss_42')).toBeUndefined();
+	});
+});
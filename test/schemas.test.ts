@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+	configureSchemaValidation,
+	SchemaDriftError,
+	type SchemaDriftReport,
+	toAccountMinimal,
+	toIssueMinimal,
+	toIssueStandard,
+} from '../src/schemas.js';
+
+const issue = {
+	id: 'iss_1',
+	number: 1001,
+	title: 'Login fails',
+	state: 'new',
+	assignee: { id: 'user_1', email: 'dana@example.com' },
+	team: { id: 'team_1', name: 'Support' },
+};
+
+describe('schema validation', () => {
+	afterEach(() => {
+		configureSchemaValidation({ mode: 'strict' });
+		vi.restoreAllMocks();
+	});
+
+	it('should extract ids from nested references', () => {
+		expect(toIssueStandard(issue)).toMatchObject({
+			assignee_id: 'user_1',
+			team_id: 'team_1',
+		});
+	});
+
+	it('should throw in strict mode with field path and request_id', () => {
+		const drifted = { ...issue, assignee: { user: { id: 'user_1' } } };
+		expect(() => toIssueMinimal(drifted, 'req_123')).toThrow(SchemaDriftError);
+		expect(() => toIssueMinimal(drifted, 'req_123')).toThrow(
+			/issue response .*assignee\.id: .* \(request_id: req_123\)/,
+		);
+	});
+
+	it('should report drift and return the value in lenient mode', () => {
+		const reports: SchemaDriftReport[] = [];
+		configureSchemaValidation({
+			mode: 'lenient',
+			onDrift: (report) => reports.push(report),
+		});
+
+		const account = toAccountMinimal(
+			{ id: 'acc_1', name: 'Acme', tags: [{ value: 'vip' }] },
+			'req_456',
+		);
+
+		expect(account.id).toBe('acc_1');
+		expect(reports).toEqual([
+			{
+				entity: 'account',
+				requestId: 'req_456',
+				issues: [{ path: 'tags.0', message: expect.any(String) }],
+			},
+		]);
+	});
+
+	it('should log each drifted field once per request by default', () => {
+		configureSchemaValidation({ mode: 'lenient' });
+		const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const drifted = { ...issue, title: undefined };
+
+		toIssueMinimal(drifted, 'req_789');
+		toIssueMinimal({ ...drifted, id: 'iss_2' }, 'req_789');
+
+		expect(log).toHaveBeenCalledTimes(1);
+		expect(log).toHaveBeenCalledWith(
+			expect.stringMatching(
+				/^\[pylon-mcp\] Schema drift in issue response \(request_id: req_789\): title: /,
+			),
+		);
+	});
+});
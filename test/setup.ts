@@ -0,0 +1,4 @@
+import { configureSchemaValidation } from '../src/schemas.js';
+
+// Fail loudly when a response (mock, recorded or real) drifts from the schemas
+configureSchemaValidation({ mode: 'strict' });
@@ -0,0 +1,1365 @@
+import { mkdtemp, rm, symlink, truncate, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+import type { FilterConditions, FilterPlan } from '../src/compound-filters.js';
+import { FILTER_FIELDS } from '../src/filter-fields.js';
+import {
+	type PaginatedResponse,
+	type PaginationParams,
+	PylonClient,
+} from '../src/pylon-client.js';
+import { createServer } from '../src/server.js';
+import { fetchFilterPlan, fetchPages } from '../src/tools/shared.js';
+import { MOCK_API_TOKEN, MockPylonServer } from './mock-pylon-server.js';
+
+/**
+ * End-to-end tests: every tool is called through an MCP client connected
+ * in-process to the server, which talks HTTP to the mock Pylon API.
+ */
+
+const calledTools = new Set<string>();
+let mock: MockPylonServer;
+let mcp: Client;
+// Local attachments must be inside this directory
+let attachmentRoot: string;
+
+async function connect(apiToken = MOCK_API_TOKEN): Promise<Client> {
+	const baseUrl = await mock.start();
+	const pylon = new PylonClient({
+		apiToken,
+		baseUrl,
+		maxRetries: 0,
+		rateLimit: { requestsPerSecond: 0, maxConcurrency: 0 },
+	});
+	const [clientTransport, serverTransport] =
+		InMemoryTransport.createLinkedPair();
+	await createServer(pylon, { attachmentRoot }).connect(serverTransport);
+	const client = new Client({ name: 'pylon-mcp-test', version: '1.0.0' });
+	await client.connect(clientTransport);
+	return client;
+}
+
+async function call(
+	name: string,
+	args: Record<string, unknown> = {},
+): Promise<{ text: string; isError: boolean }> {
+	calledTools.add(name);
+	const result = await mcp.callTool({ name, arguments: args });
+	const content = result.content as { type: string; text: string }[];
+	return {
+		text: content.map((item) => item.text).join('\n'),
+		isError: result.isError === true,
+	};
+}
+
+beforeAll(async () => {
+	// searchIssues logs filters to stderr
+	vi.spyOn(console, 'error').mockImplementation(() => {});
+	attachmentRoot = await mkdtemp(join(tmpdir(), 'pylon-mcp-'));
+});
+
+afterAll(async () => {
+	vi.restoreAllMocks();
+	await rm(attachmentRoot, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+	mock = new MockPylonServer();
+	mcp = await connect();
+});
+
+afterEach(async () => {
+	await mcp.close();
+	await mock.stop();
+});
+
+describe('organization tools', () => {
+	it('pylon_get_organization', async () => {
+		const { text } = await call('pylon_get_organization');
+		expect(JSON.parse(text)).toEqual({ id: 'org_1', name: 'Mock Org' });
+	});
+});
+
+describe('account tools', () => {
+	it('pylon_list_accounts', async () => {
+		const { text } = await call('pylon_list_accounts', { limit: 1 });
+		expect(text).toContain('| acc_acme | Acme Corp | acme.com | enterprise |');
+		expect(text).toContain('More results available. Use cursor: "1"');
+	});
+
+	it('pylon_list_accounts with fetch_all', async () => {
+		const { text } = await call('pylon_list_accounts', { fetch_all: true });
+		expect(text).toContain('Acme Corp');
+		expect(text).toContain('Globex');
+		expect(text).toContain('All 2 results returned.');
+	});
+
+	it('pylon_get_account', async () => {
+		const { text } = await call('pylon_get_account', { id: 'acc_globex' });
+		expect(JSON.parse(text)).toMatchObject({
+			id: 'acc_globex',
+			name: 'Globex',
+		});
+	});
+
+	it('pylon_create_account', async () => {
+		const { text } = await call('pylon_create_account', {
+			name: 'Initech',
+			domains: ['initech.com'],
+		});
+		expect(JSON.parse(text)).toMatchObject({ name: 'Initech' });
+		expect(mock.state.accounts).toHaveLength(3);
+	});
+
+	it('pylon_update_account', async () => {
+		await call('pylon_update_account', { id: 'acc_acme', name: 'Acme Inc' });
+		expect(mock.state.accounts[0]?.['name']).toBe('Acme Inc');
+	});
+
+	it('pylon_update_account with add_tags', async () => {
+		await call('pylon_update_account', {
+			id: 'acc_acme',
+			add_tags: ['trial'],
+		});
+		expect(mock.state.accounts[0]?.['tags']).toEqual(['enterprise', 'trial']);
+	});
+
+	it('pylon_update_account with custom fields', async () => {
+		await call('pylon_update_account', {
+			id: 'acc_acme',
+			custom_fields: { plan: 'enterprise', renewal_date: '2026-01-01' },
+		});
+		expect(mock.state.accounts[0]?.['custom_fields']).toEqual([
+			{ slug: 'plan', value: 'enterprise' },
+			{ slug: 'renewal_date', value: '2026-01-01' },
+		]);
+	});
+
+	it('pylon_delete_account', async () => {
+		await call('pylon_delete_account', { id: 'acc_globex' });
+		expect(mock.state.accounts.map((a) => a.id)).toEqual(['acc_acme']);
+	});
+
+	it('pylon_search_accounts', async () => {
+		const { text } = await call('pylon_search_accounts', {
+			filter: { domains: { contains: 'globex.io' } },
+		});
+		expect(text).toContain('Globex');
+		expect(text).not.toContain('Acme');
+	});
+});
+
+describe('contact tools', () => {
+	it('pylon_list_contacts', async () => {
+		const { text } = await call('pylon_list_contacts');
+		expect(text).toContain(
+			'| con_alice | Alice Smith | alice@acme.com | acc_acme |',
+		);
+	});
+
+	it('pylon_list_contacts with fetch_all stops at max_items', async () => {
+		const { text } = await call('pylon_list_contacts', {
+			fetch_all: true,
+			max_items: 1,
+		});
+		expect(text).toContain('Alice Smith');
+		expect(text).not.toContain('Bob Jones');
+		expect(text).toContain(
+			'Results truncated: showing the first 1 results because the max_items cap was reached.',
+		);
+	});
+
+	it('pylon_get_contact', async () => {
+		const { text } = await call('pylon_get_contact', { id: 'con_bob' });
+		expect(JSON.parse(text)).toMatchObject({
+			id: 'con_bob',
+			account_id: 'acc_globex',
+		});
+	});
+
+	it('pylon_create_contact', async () => {
+		const { text } = await call('pylon_create_contact', {
+			name: 'Carol',
+			email: 'carol@acme.com',
+			account_id: 'acc_acme',
+		});
+		expect(JSON.parse(text)).toMatchObject({ name: 'Carol' });
+	});
+
+	it('pylon_update_contact', async () => {
+		await call('pylon_update_contact', {
+			id: 'con_bob',
+			portal_role: 'admin',
+			custom_fields: { champion: true },
+		});
+		expect(mock.state.contacts[1]?.['custom_fields']).toEqual([
+			{ slug: 'champion', value: 'true' },
+		]);
+
+		await call('pylon_update_contact', { id: 'con_bob', add_tags: ['VIP'] });
+		expect(mock.state.contacts[1]?.['tags']).toEqual(['vip']);
+		expect(mock.state.contacts[1]?.['portal_role']).toBe('admin');
+	});
+
+	it('pylon_create_contact with an account name', async () => {
+		await call('pylon_create_contact', {
+			name: 'Dave',
+			account_id: 'Globex',
+		});
+		expect(mock.state.contacts.at(-1)?.['account_id']).toBe('acc_globex');
+	});
+
+	it('pylon_update_contact with an account domain', async () => {
+		await call('pylon_update_contact', {
+			id: 'con_bob',
+			account_id: 'acme.com',
+		});
+		expect(mock.state.contacts[1]?.['account_id']).toBe('acc_acme');
+	});
+
+	it('pylon_delete_contact', async () => {
+		await call('pylon_delete_contact', { id: 'con_bob' });
+		expect(mock.state.contacts).toHaveLength(1);
+	});
+
+	it('pylon_search_contacts', async () => {
+		const { text } = await call('pylon_search_contacts', {
+			filter: { email: { string_contains: '@acme.com' } },
+		});
+		expect(text).toContain('Alice Smith');
+		expect(text).not.toContain('Bob Jones');
+	});
+
+	it('pylon_search_contacts subtracts not groups it cannot negate', async () => {
+		const { text } = await call('pylon_search_contacts', {
+			filter: { not: { email: { string_contains: '@acme.com' } } },
+		});
+		expect(text).toContain('Bob Jones');
+		expect(text).not.toContain('Alice Smith');
+		const filters = mock
+			.requestsTo('POST', '/contacts/search')
+			.map((request) => (request.body as { filter: unknown }).filter);
+		expect(filters).toEqual([{}, { email: { string_contains: '@acme.com' } }]);
+	});
+});
+
+describe('issue tools', () => {
+	it('pylon_list_issues', async () => {
+		const { text } = await call('pylon_list_issues', {
+			start_time: '2025-01-01T00:00:00Z',
+			end_time: '2025-01-31T00:00:00Z',
+		});
+		expect(text).toContain(
+			'| 1001 | Login error on SSO | new | urgent | 2025-01-05 |',
+		);
+		expect(text).toContain('| 1002 | Billing question |');
+		expect(text).not.toContain('API returns 500');
+	});
+
+	it('pylon_list_issues across more than 30 days', async () => {
+		const { text } = await call('pylon_list_issues', {
+			start_time: '2025-01-01T00:00:00Z',
+			end_time: '2025-04-01T00:00:00Z',
+		});
+		const numbers = [...text.matchAll(/\| (\d{4}) \|/g)].map((m) => m[1]);
+		expect(numbers).toEqual(['1001', '1002', '1003', '1004', '1005']);
+		expect(text).toContain('from 3 30-day windows');
+		// Every request stayed within Pylon's 30-day limit
+		expect(mock.requestsTo('GET', '/issues')).toHaveLength(3);
+	});
+
+	it('pylon_list_issues honors limit across 30-day windows', async () => {
+		const { text } = await call('pylon_list_issues', {
+			start_time: '2025-01-01T00:00:00Z',
+			end_time: '2025-04-01T00:00:00Z',
+			limit: 2,
+		});
+		const numbers = [...text.matchAll(/\| (\d{4}) \|/g)].map((m) => m[1]);
+		expect(numbers).toEqual(['1001', '1002']);
+		expect(text).toContain(
+			'Showing 2 results from the earliest of 3 30-day windows. Pass fetch_all to see more',
+		);
+		// The second window shows there are more, so the third is never queried
+		expect(mock.requestsTo('GET', '/issues')).toHaveLength(2);
+
+		const { text: error, isError } = await call('pylon_list_issues', {
+			start_time: '2025-01-01T00:00:00Z',
+			end_time: '2025-04-01T00:00:00Z',
+			cursor: '2',
+		});
+		expect(isError).toBe(true);
+		expect(error).toContain(
+			'cursor is not supported for time ranges over 30 days',
+		);
+	});
+
+	it('pylon_get_issue', async () => {
+		const { text } = await call('pylon_get_issue', { id: '1003' });
+		const issue = JSON.parse(text);
+		expect(issue).toMatchObject({
+			id: 'iss_3',
+			number: 1003,
+			account_id: 'acc_acme',
+			team_id: 'team_support',
+		});
+		expect(issue.body_html).toBeUndefined();
+	});
+
+	it('pylon_get_issue_body', async () => {
+		const { text } = await call('pylon_get_issue_body', { id: 'iss_1' });
+		expect(text).toContain('Issue #1001 body');
+		expect(text).toContain('Login error on SSO Details for issue 1001.');
+	});
+
+	it('pylon_create_issue', async () => {
+		const { text } = await call('pylon_create_issue', {
+			title: 'New bug',
+			body_html: '<p>Broken</p>',
+			priority: 'high',
+		});
+		expect(JSON.parse(text)).toMatchObject({ title: 'New bug', number: 1006 });
+	});
+
+	it('pylon_create_issue with a ticket form', async () => {
+		const { text } = await call('pylon_create_issue', {
+			title: 'Login broken',
+			body_html: '<p>Broken</p>',
+			priority: 'urgent',
+			ticket_form_id: 'bug report',
+			custom_fields: { severity: 'sev1', components: ['web'] },
+		});
+		expect(JSON.parse(text)).toMatchObject({ ticket_form_id: 'form_bug' });
+	});
+
+	it('pylon_create_issue with missing ticket form fields', async () => {
+		const result = await call('pylon_create_issue', {
+			title: 'Login broken',
+			body_html: '<p>Broken</p>',
+			ticket_form_id: 'form_bug',
+			custom_fields: { components: [] },
+		});
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain(
+			'Ticket form "Bug report" (form_bug) requires 3 fields that were not provided:\n- Priority: set priority\n- Severity: set custom_fields.severity\n- Components: set custom_fields.components',
+		);
+		expect(mock.requestsTo('POST', '/issues')).toHaveLength(0);
+	});
+
+	it('pylon_update_issue', async () => {
+		await call('pylon_update_issue', { id: 'iss_2', state: 'closed' });
+		expect(mock.state.issues[1]?.['state']).toBe('closed');
+	});
+
+	it('pylon_update_issue with human-friendly references', async () => {
+		await call('pylon_update_issue', {
+			id: 'https://app.usepylon.com/issues?issueNumber=1002',
+			assignee_id: 'Fox@example.com',
+			team_id: 'engineering',
+			account_id: 'globex.io',
+		});
+		expect(mock.requestsTo('PATCH', '/issues/iss_2')[0]?.body).toEqual({
+			assignee_id: 'user_fox',
+			team_id: 'team_eng',
+			account_id: 'acc_globex',
+		});
+	});
+
+	it('pylon_create_issue with an ambiguous assignee', async () => {
+		const result = await call('pylon_create_issue', {
+			title: 'New bug',
+			body_html: '<p>Broken</p>',
+			assignee_id: 'er',
+			requester_id: 'alice@acme.com',
+		});
+		expect(result.isError).toBe(true);
+		expect(result.text).toBe(
+			'Error: "er" matches 2 users: Fox Mulder <fox@example.com> (user_fox), Walter Skinner <walter@example.com> (user_walter). Pass one of these IDs instead.',
+		);
+		expect(mock.requestsTo('POST', '/issues')).toHaveLength(0);
+	});
+
+	it('pylon_update_issue with custom fields', async () => {
+		await call('pylon_update_issue', {
+			id: 'iss_1',
+			custom_fields: {
+				severity: 'Sev1',
+				components: ['api', 'web'],
+				affected_users: 40,
+				escalation_owner: 'walter@example.com',
+			},
+		});
+		expect(mock.requestsTo('PATCH', '/issues/iss_1')[0]?.body).toEqual({
+			custom_fields: [
+				{ slug: 'severity', value: 'sev1' },
+				{ slug: 'components', values: ['api', 'web'] },
+				{ slug: 'affected_users', value: '40' },
+				{ slug: 'escalation_owner', value: 'user_walter' },
+			],
+		});
+	});
+
+	it('pylon_update_issue with add_tags and remove_tags', async () => {
+		await call('pylon_update_issue', {
+			id: '1001',
+			add_tags: ['P1', 'bug'],
+			remove_tags: ['sso'],
+		});
+		expect(mock.requestsTo('PATCH', '/issues/iss_1')[0]?.body).toEqual({
+			tags: ['bug', 'p1'],
+		});
+	});
+
+	it('pylon_update_issue with unknown tags', async () => {
+		const result = await call('pylon_update_issue', {
+			id: 'iss_1',
+			add_tags: ['p0', 'outages', 'enterprise'],
+		});
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain(
+			'Unknown issue tags: "p0" (did you mean "p1"?), "outages" (did you mean "outage"?), "enterprise". Use pylon_list_tags',
+		);
+
+		const both = await call('pylon_update_issue', {
+			id: 'iss_1',
+			tags: ['bug'],
+			remove_tags: ['sso'],
+		});
+		expect(both.isError).toBe(true);
+		expect(both.text).toContain('Pass either tags');
+		expect(mock.requestsTo('PATCH', '/issues/iss_1')).toHaveLength(0);
+	});
+
+	it('pylon_create_issue with invalid custom fields', async () => {
+		const result = await call('pylon_create_issue', {
+			title: 'New bug',
+			body_html: '<p>Broken</p>',
+			custom_fields: { severity: 'critical', plan: 'pro' },
+		});
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain(
+			'- severity (select): "critical" is not an option (sev1, sev2, sev3)',
+		);
+		expect(result.text).toContain(
+			'- plan: no issue custom field with this slug',
+		);
+		expect(mock.requestsTo('POST', '/issues')).toHaveLength(0);
+	});
+
+	it('pylon_delete_issue', async () => {
+		await call('pylon_delete_issue', { id: 'iss_5' });
+		expect(mock.state.issues).toHaveLength(4);
+	});
+
+	it('pylon_search_issues with fetch_all', async () => {
+		const { text } = await call('pylon_search_issues', {
+			filter: { account_id: { equals: 'acc_acme' } },
+			fetch_all: true,
+		});
+		expect(text).toContain('| 1001 |');
+		expect(text).toContain('| 1003 |');
+		expect(text).toContain('| 1005 |');
+		expect(text).toContain('All 3 results returned.');
+	});
+
+	it('pylon_search_issues', async () => {
+		const { text } = await call('pylon_search_issues', {
+			filter: { tags: { contains: 'outage' } },
+		});
+		expect(text).toContain('Outage in EU region');
+		expect(text).not.toContain('Billing question');
+	});
+
+	it('pylon_search_issues by priority, update time, source and portal visibility', async () => {
+		const urgent = await call('pylon_search_issues', {
+			filter: { priority: { in: ['urgent', 'high'] } },
+		});
+		expect(urgent.text).toContain(
+			'| 1001 | Login error on SSO | new | urgent | 2025-01-05 |',
+		);
+		expect(urgent.text).not.toContain('Billing question');
+
+		const updated = await call('pylon_search_issues', {
+			filter: { updated_at: { time_is_after: '2025-03-18T00:00:00Z' } },
+		});
+		expect(updated.text).toContain(
+			'| 1002 | Billing question | waiting_on_you | medium | 2025-01-20 |',
+		);
+		expect(updated.text).not.toContain('Outage in EU region');
+
+		const slack = await call('pylon_search_issues', {
+			filter: {
+				source: { equals: 'slack' },
+				customer_portal_visible: { equals: false },
+			},
+		});
+		expect(slack.text).toContain('API returns 500');
+		expect(slack.text).not.toContain('Login error on SSO');
+
+		const [request] = mock.requestsTo('POST', '/issues/search').slice(-1);
+		expect((request?.body as { filter: unknown }).filter).toEqual({
+			source: { equals: 'slack' },
+			customer_portal_visible: { equals: false },
+		});
+	});
+
+	it('pylon_search_issues with a query string', async () => {
+		const { text } = await call('pylon_search_issues', {
+			query: 'assignee:dana@example.com -tag:outage created:<2025-03-01',
+			filter: { state: { not_in: ['closed'] } },
+		});
+		expect(text).toContain(
+			'Query filter: {"assignee_id":{"equals":"user_dana"},"not":{"tags":{"contains":"outage"}},"created_at":{"time_is_before":"2025-03-01T00:00:00Z"}}',
+		);
+		expect(text).toContain('Login error on SSO');
+		expect(text).toContain('API returns 500');
+		expect(text).not.toContain('Outage in EU region');
+		expect(text).not.toContain('Billing question');
+
+		const invalid = await call('pylon_search_issues', { query: 'sate:new' });
+		expect(invalid.isError).toBe(true);
+		expect(invalid.text).toContain('Can\'t parse query at "sate:new"');
+
+		const empty = await call('pylon_search_issues', {});
+		expect(empty.text).toBe('Error: Pass a query, a filter, or both.');
+	});
+
+	it('pylon_search_issues combines or groups client-side', async () => {
+		const { text } = await call('pylon_search_issues', {
+			filter: {
+				or: [
+					{ priority: { equals: 'urgent' } },
+					{ tags: { contains: 'outage' } },
+				],
+			},
+		});
+		expect(text).toContain('Login error on SSO');
+		expect(text).toContain('Outage in EU region');
+		expect(text).not.toContain('Billing question');
+		expect(text).toContain('2 results matched, combined from 2 searches.');
+		expect(mock.requestsTo('POST', '/issues/search')).toHaveLength(2);
+	});
+
+	it('pylon_search_issues sends negated conditions natively', async () => {
+		const { text } = await call('pylon_search_issues', {
+			filter: {
+				account_id: { equals: 'acc_acme' },
+				not: { title: { string_contains: 'SSO' } },
+			},
+		});
+		expect(text).toContain('API returns 500');
+		expect(text).not.toContain('Login error on SSO');
+		const requests = mock.requestsTo('POST', '/issues/search');
+		expect(requests).toHaveLength(1);
+		expect((requests[0]?.body as { filter: unknown }).filter).toEqual({
+			account_id: { equals: 'acc_acme' },
+			title: { string_does_not_contain: 'SSO' },
+		});
+	});
+
+	it('pylon_search_issues folds groups into one native search where it can', async () => {
+		const { text } = await call('pylon_search_issues', {
+			filter: {
+				or: [{ state: { equals: 'new' } }, { state: { equals: 'closed' } }],
+				and: [
+					{ not: { tags: { contains: 'spam' } } },
+					{ not: { tags: { contains: 'wontfix' } } },
+				],
+			},
+		});
+		expect(text).not.toContain('combined from');
+		const requests = mock.requestsTo('POST', '/issues/search');
+		expect(requests).toHaveLength(1);
+		expect((requests[0]?.body as { filter: unknown }).filter).toEqual({
+			tags: { not_in: ['spam', 'wontfix'] },
+			state: { in: ['new', 'closed'] },
+		});
+	});
+
+	it('pylon_search_issues rejects filters needing too many searches', async () => {
+		const { isError, text } = await call('pylon_search_issues', {
+			filter: {
+				or: Array.from({ length: 11 }, (_, i) => ({
+					title: { string_contains: `term${i}` },
+				})),
+			},
+		});
+		expect(isError).toBe(true);
+		expect(text).toContain('needs 11 separate searches');
+		expect(mock.requestsTo('POST', '/issues/search')).toHaveLength(0);
+	});
+
+	it('pylon_search_issues drops hallucinated operators and warns', async () => {
+		const { isError, text } = await call('pylon_search_issues', {
+			filter: {
+				state: { equals: 'new' },
+				created_at: { gte: '2025-01-01T00:00:00Z' },
+			},
+		});
+		expect(isError).toBe(false);
+		const [request] = mock.requestsTo('POST', '/issues/search');
+		expect((request?.body as { filter: unknown }).filter).toEqual({
+			state: { equals: 'new' },
+		});
+		expect(text).toMatch(
+			/^Warning: ignored unsupported filter fields or operators.*\n- created_at\.gte: use time_is_after\n\n\| # \|/,
+		);
+	});
+
+	it('pylon_search_issues drops unknown fields and suggests the closest', async () => {
+		const { text } = await call('pylon_search_issues', {
+			filter: {
+				state: { equals: 'new' },
+				prioirty: { equals: 'urgent' },
+			},
+		});
+		const [request] = mock.requestsTo('POST', '/issues/search');
+		expect((request?.body as { filter: unknown }).filter).toEqual({
+			state: { equals: 'new' },
+		});
+		expect(text).toContain(
+			'- prioirty: not a searchable field, use priority\n',
+		);
+	});
+
+	it('pylon_search_issues rejects or groups emptied by unknown fields', async () => {
+		const { isError, text } = await call('pylon_search_issues', {
+			filter: {
+				or: [
+					{ priorty: { equals: 'urgent' } },
+					{ tags: { contains: 'outage' } },
+				],
+			},
+		});
+		expect(isError).toBe(true);
+		expect(text).toContain('filter.or[0] has no supported conditions left');
+		expect(mock.requestsTo('POST', '/issues/search')).toHaveLength(0);
+	});
+
+	it('pylon_search_issues runs repeated negations as one search', async () => {
+		const { text } = await call('pylon_search_issues', {
+			query: '-state:closed -state:new',
+		});
+		expect(text).not.toContain('| 1001 |');
+		expect(text).toContain('| 1002 |');
+		const requests = mock.requestsTo('POST', '/issues/search');
+		expect(requests.map((request) => request.body)).toEqual([
+			expect.objectContaining({
+				filter: { state: { not_in: ['new', 'closed'] } },
+			}),
+		]);
+	});
+
+	it('pylon_snooze_issue', async () => {
+		await call('pylon_snooze_issue', {
+			id: 'iss_1',
+			snooze_until: '2025-12-01T00:00:00Z',
+		});
+		expect(mock.state.issues[0]?.['snoozed_until']).toBe(
+			'2025-12-01T00:00:00Z',
+		);
+	});
+
+	it('pylon_get_issue_followers', async () => {
+		const { text } = await call('pylon_get_issue_followers', { id: 'iss_1' });
+		expect(JSON.parse(text)).toEqual([
+			{ id: 'user_fox', email: 'fox@example.com' },
+		]);
+	});
+
+	it('pylon_update_issue_followers', async () => {
+		await call('pylon_update_issue_followers', {
+			id: '#1001',
+			user_ids: ['Dana Scully'],
+		});
+		expect(mock.state.followers['iss_1']?.map((f) => f.id)).toEqual([
+			'user_fox',
+			'user_dana',
+		]);
+	});
+});
+
+describe('message tools', () => {
+	it('pylon_get_issue_messages', async () => {
+		const { text } = await call('pylon_get_issue_messages', {
+			issue_id: 'iss_1',
+		});
+		expect(text).toBe(
+			[
+				'[2025-01-05T10:00:00Z] PUBLIC · Alice Smith (customer)',
+				'I cannot log in with SSO.',
+				'',
+				'[2025-01-05T11:00:00Z] INTERNAL · Dana Scully (team)',
+				'Looks like an IdP misconfiguration.',
+				'',
+				'[2025-01-05T12:00:00Z] PUBLIC · Dana Scully (team)',
+				'Please check your SAML certificate.',
+			].join('\n'),
+		);
+	});
+
+	it('pylon_get_issue_messages filters by visibility, since and count', async () => {
+		const internal = await call('pylon_get_issue_messages', {
+			issue_id: 'iss_1',
+			visibility: 'internal',
+		});
+		expect(internal.text).toContain('IdP misconfiguration');
+		expect(internal.text).not.toContain('PUBLIC');
+
+		const recent = await call('pylon_get_issue_messages', {
+			issue_id: 'iss_1',
+			visibility: 'public',
+			since: '2025-01-05T10:30:00Z',
+		});
+		expect(recent.text).toMatch(/^\[2025-01-05T12:00:00Z\] PUBLIC/);
+		expect(recent.text).not.toContain('Alice Smith');
+
+		const latest = await call('pylon_get_issue_messages', {
+			issue_id: 'iss_1',
+			max_messages: 1,
+		});
+		expect(latest.text).toContain('SAML certificate');
+		expect(latest.text).toContain(
+			'Showing the latest 1 of 3 matching messages.',
+		);
+
+		const none = await call('pylon_get_issue_messages', { issue_id: 'iss_2' });
+		expect(none.text).toBe('No messages found.');
+	});
+
+	it('pylon_reply_to_issue requires confirm_send', async () => {
+		const result = await call('pylon_reply_to_issue', {
+			issue_id: 'iss_1',
+			body_markdown: 'Hi Alice',
+		});
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain('confirm_send: true');
+		expect(mock.requestsTo('POST', '/issues/iss_1/reply')).toHaveLength(0);
+	});
+
+	it('pylon_reply_to_issue', async () => {
+		const { text } = await call('pylon_reply_to_issue', {
+			issue_id: 'iss_1',
+			body_markdown: 'Hi Alice,\n\nPlease **rotate** the certificate.',
+			attachment_urls: ['https://files.example.com/guide.pdf'],
+			confirm_send: true,
+		});
+		expect(JSON.parse(text)).toMatchObject({
+			author_name: 'Dana Scully',
+			is_private: false,
+			text: 'Hi Alice,\nPlease rotate the certificate.',
+		});
+		// Defaults to replying to the latest public message
+		expect(mock.requestsTo('POST', '/issues/iss_1/reply')[0]?.body).toEqual({
+			body_html:
+				'<p>Hi Alice,</p><p>Please <strong>rotate</strong> the certificate.</p>',
+			message_id: 'msg_3',
+			attachment_urls: ['https://files.example.com/guide.pdf'],
+		});
+	});
+
+	it('pylon_add_internal_note', async () => {
+		const { text } = await call('pylon_add_internal_note', {
+			issue_id: 'iss_1',
+			body_markdown: '- checked IdP\n- escalating',
+		});
+		expect(JSON.parse(text)).toMatchObject({ is_private: true });
+		expect(mock.state.messages['iss_1']?.at(-1)?.['message_html']).toBe(
+			'<ul><li>checked IdP</li><li>escalating</li></ul>',
+		);
+	});
+
+	it('pylon_redact_message', async () => {
+		const { text } = await call('pylon_redact_message', {
+			issue_id: 'iss_1',
+			message_id: 'msg_1',
+		});
+		expect(JSON.parse(text)).toMatchObject({
+			id: 'msg_1',
+			message_html: '<p>[redacted]</p>',
+		});
+	});
+});
+
+describe('attachment tools', () => {
+	let dir: string;
+	let outside: string;
+
+	beforeAll(async () => {
+		dir = attachmentRoot;
+		outside = await mkdtemp(join(tmpdir(), 'pylon-mcp-outside-'));
+		await writeFile(join(outside, 'credentials.csv'), 'key,secret\n');
+		await symlink(join(outside, 'credentials.csv'), join(dir, 'linked.csv'));
+		await writeFile(join(dir, 'app.log'), 'ERROR login failed\n');
+		await writeFile(join(dir, 'id_rsa'), 'secret');
+		// Sparse file: reported as 21 MB without writing the bytes
+		await writeFile(join(dir, 'huge.txt'), '');
+		await truncate(join(dir, 'huge.txt'), 21 * 1024 * 1024);
+	});
+
+	afterAll(async () => {
+		await rm(outside, { recursive: true, force: true });
+	});
+
+	it('pylon_upload_attachment', async () => {
+		const { text } = await call('pylon_upload_attachment', {
+			path: join(dir, 'app.log'),
+			description: 'Server log',
+		});
+		expect(JSON.parse(text)).toEqual({
+			id: 'att_new_1',
+			name: 'app.log',
+			description: 'Server log',
+			url: 'https://assets.usepylon.com/attachments/att_new_1/app.log',
+		});
+		expect(mock.requestsTo('POST', '/attachments')[0]?.body).toEqual({
+			file: { name: 'app.log', type: 'text/plain', size: 19 },
+			description: 'Server log',
+		});
+	});
+
+	it('pylon_upload_attachment with base64 content', async () => {
+		const { text } = await call('pylon_upload_attachment', {
+			content_base64: Buffer.from('fake png').toString('base64'),
+			filename: 'screenshot.png',
+		});
+		expect(JSON.parse(text)).toMatchObject({ name: 'screenshot.png' });
+		expect(mock.requestsTo('POST', '/attachments')[0]?.body).toEqual({
+			file: { name: 'screenshot.png', type: 'image/png', size: 8 },
+		});
+	});
+
+	it('pylon_upload_attachment rejects disallowed and oversized files', async () => {
+		const key = await call('pylon_upload_attachment', {
+			path: join(dir, 'id_rsa'),
+		});
+		expect(key.isError).toBe(true);
+		expect(key.text).toContain('"id_rsa" is not an allowed attachment type');
+
+		const huge = await call('pylon_upload_attachment', {
+			path: join(dir, 'huge.txt'),
+		});
+		expect(huge.isError).toBe(true);
+		expect(huge.text).toContain(
+			'"huge.txt" is 21.0 MB; attachments are limited to 20.0 MB.',
+		);
+
+		const mime = await call('pylon_upload_attachment', {
+			content_base64: 'AAAA',
+			filename: 'tool.exe',
+			mime_type: 'application/x-msdownload',
+		});
+		expect(mime.isError).toBe(true);
+		expect(mime.text).toContain('(application/x-msdownload) is not an allowed');
+
+		const relative = await call('pylon_upload_attachment', {
+			path: 'app.log',
+		});
+		expect(relative.isError).toBe(true);
+		expect(relative.text).toContain('is not an absolute path');
+		expect(mock.requestsTo('POST', '/attachments')).toHaveLength(0);
+	});
+
+	it('pylon_upload_attachment rejects files outside the attachment root', async () => {
+		const elsewhere = await call('pylon_upload_attachment', {
+			path: join(outside, 'credentials.csv'),
+		});
+		expect(elsewhere.isError).toBe(true);
+		expect(elsewhere.text).toContain(
+			`credentials.csv" is outside the attachment folder ${attachmentRoot}.`,
+		);
+
+		const linked = await call('pylon_upload_attachment', {
+			path: join(dir, 'linked.csv'),
+		});
+		expect(linked.isError).toBe(true);
+		expect(linked.text).toContain(
+			'linked.csv" is outside the attachment folder',
+		);
+
+		const reply = await call('pylon_reply_to_issue', {
+			issue_id: 'iss_1',
+			body_markdown: 'Details attached',
+			confirm_send: true,
+			attachment_urls: [join(dir, '..', basename(outside), 'credentials.csv')],
+		});
+		expect(reply.isError).toBe(true);
+		expect(reply.text).toContain('is outside the attachment folder');
+		expect(mock.requestsTo('POST', '/issues/iss_1/reply')).toHaveLength(0);
+		expect(mock.requestsTo('POST', '/attachments')).toHaveLength(0);
+	});
+
+	it('pylon_create_issue uploads local attachments', async () => {
+		await call('pylon_create_issue', {
+			title: 'Login broken',
+			body_html: '<p>Log attached</p>',
+			attachment_urls: [
+				join(dir, 'app.log'),
+				'https://files.example.com/trace.har',
+			],
+		});
+		expect(mock.requestsTo('POST', '/issues')[0]?.body).toMatchObject({
+			attachment_urls: [
+				'https://assets.usepylon.com/attachments/att_new_1/app.log',
+				'https://files.example.com/trace.har',
+			],
+		});
+	});
+
+	it('pylon_add_internal_note does not upload when a path is invalid', async () => {
+		const result = await call('pylon_add_internal_note', {
+			issue_id: 'iss_1',
+			body_markdown: 'Logs attached',
+			attachment_urls: [join(dir, 'app.log'), join(dir, 'missing.log')],
+		});
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain('missing.log" is not a readable file.');
+		expect(mock.requestsTo('POST', '/attachments')).toHaveLength(0);
+		expect(mock.requestsTo('POST', '/issues/iss_1/note')).toHaveLength(0);
+	});
+});
+
+describe('knowledge base tools', () => {
+	it('pylon_list_knowledge_bases', async () => {
+		const { text } = await call('pylon_list_knowledge_bases');
+		expect(text).toContain('| kb_help | Help Center | en |');
+		expect(text).toContain('| kb_internal | Internal runbooks | - |');
+	});
+
+	it('pylon_list_articles', async () => {
+		const { text } = await call('pylon_list_articles', {
+			knowledge_base_id: 'kb_help',
+		});
+		expect(text).toContain(
+			'| art_sso | Configure SAML SSO | yes | 2024-03-01 |',
+		);
+		expect(text).toContain(
+			'| art_billing | Update billing details | draft | - |',
+		);
+	});
+
+	it('pylon_search_articles', async () => {
+		const { text } = await call('pylon_search_articles', {
+			query: 'SAML certificate',
+		});
+		const rows = text.split('\n').slice(2);
+		// Title matches rank above body-only matches
+		expect(rows[0]).toContain(
+			'| art_sso | kb_help | Configure SAML SSO | yes |',
+		);
+		expect(rows[0]).toContain('Upload your IdP certificate under Settings');
+		expect(rows[1]).toContain('| art_rotate | kb_internal |');
+		// Body snippets start shortly before the first match
+		expect(rows[1]).toContain(
+			'| yes | ...and region. When a customer reports SAML login failures',
+		);
+		expect(rows).toHaveLength(2);
+
+		const scoped = await call('pylon_search_articles', {
+			query: 'retry',
+			knowledge_base_id: 'kb_internal',
+		});
+		expect(scoped.text).toBe('No articles match "retry".');
+	});
+
+	it('pylon_get_article', async () => {
+		const { text } = await call('pylon_get_article', {
+			knowledge_base_id: 'kb_help',
+			article_id: 'art_sso',
+		});
+		expect(text).toBe(
+			'Configure SAML SSO (art_sso)\nPublished · https://help.example.com/articles/saml-sso\n\nBody (76 chars total, showing 76):\n\nConfigure SAML SSO Upload your IdP certificate under Settings &gt; Security.',
+		);
+	});
+
+	it('pylon_create_article_draft', async () => {
+		const { text } = await call('pylon_create_article_draft', {
+			knowledge_base_id: 'kb_help',
+			title: 'Rotating SAML certificates',
+			body_markdown: 'Ask the customer to **rotate** the certificate.',
+			author: 'Dana',
+		});
+		expect(JSON.parse(text)).toMatchObject({
+			id: 'art_new_1',
+			title: 'Rotating SAML certificates',
+			is_published: false,
+		});
+		expect(
+			mock.requestsTo('POST', '/knowledge-bases/kb_help/articles')[0]?.body,
+		).toEqual({
+			title: 'Rotating SAML certificates',
+			body_html:
+				'<p>Ask the customer to <strong>rotate</strong> the certificate.</p>',
+			author_user_id: 'user_dana',
+			is_published: false,
+		});
+	});
+});
+
+describe('tag tools', () => {
+	it('pylon_list_tags', async () => {
+		const { text } = await call('pylon_list_tags');
+		expect(text).toContain('| tag_bug | bug | issue | #ff0000 |');
+	});
+
+	it('pylon_get_tag', async () => {
+		const { text } = await call('pylon_get_tag', { id: 'tag_vip' });
+		expect(JSON.parse(text)).toMatchObject({ value: 'vip' });
+	});
+
+	it('pylon_create_tag', async () => {
+		const { text } = await call('pylon_create_tag', {
+			value: 'p2',
+			object_type: 'issue',
+		});
+		expect(JSON.parse(text)).toMatchObject({ value: 'p2' });
+	});
+
+	it('pylon_create_tag makes the tag available to add_tags', async () => {
+		const before = await call('pylon_update_issue', {
+			id: 'iss_2',
+			add_tags: ['regression'],
+		});
+		expect(before.isError).toBe(true);
+
+		await call('pylon_create_tag', {
+			value: 'regression',
+			object_type: 'issue',
+		});
+		const after = await call('pylon_update_issue', {
+			id: 'iss_2',
+			add_tags: ['regression'],
+		});
+		expect(after.isError).toBe(false);
+		expect(mock.state.issues[1]?.['tags']).toEqual(['regression']);
+	});
+
+	it('pylon_update_tag', async () => {
+		await call('pylon_update_tag', { id: 'tag_bug', hex_color: '#00ff00' });
+		expect(mock.state.tags[0]?.['hex_color']).toBe('#00ff00');
+	});
+
+	it('pylon_delete_tag', async () => {
+		await call('pylon_delete_tag', { id: 'tag_vip' });
+		expect(mock.state.tags.some((t) => t.id === 'tag_vip')).toBe(false);
+	});
+});
+
+describe('team tools', () => {
+	it('pylon_list_teams', async () => {
+		const { text } = await call('pylon_list_teams');
+		expect(text).toContain('| team_support | Support | 2 members |');
+		expect(text).toContain('| team_eng | Engineering | - |');
+	});
+
+	it('pylon_get_team', async () => {
+		const { text } = await call('pylon_get_team', { id: 'team_support' });
+		expect(JSON.parse(text).users).toHaveLength(2);
+	});
+
+	it('pylon_create_team', async () => {
+		const { text } = await call('pylon_create_team', {
+			name: 'Success',
+			user_ids: ['user_walter'],
+		});
+		expect(JSON.parse(text)).toMatchObject({
+			name: 'Success',
+			users: [{ id: 'user_walter', email: 'walter@example.com' }],
+		});
+	});
+
+	it('pylon_update_team', async () => {
+		await call('pylon_update_team', { id: 'team_eng', name: 'Platform' });
+		expect(mock.state.teams[1]?.['name']).toBe('Platform');
+	});
+
+	it('resolves teams by name right after creating or renaming them', async () => {
+		// Cache the team directory first
+		await call('pylon_update_team_members', {
+			id: 'Support',
+			user_ids: ['user_walter'],
+		});
+		await call('pylon_create_team', { name: 'Success' });
+		await call('pylon_update_team', { id: 'team_eng', name: 'Platform' });
+		for (const name of ['Success', 'Platform']) {
+			const { isError } = await call('pylon_update_team_members', {
+				id: name,
+				user_ids: ['user_walter'],
+			});
+			expect(isError).toBe(false);
+		}
+	});
+
+	it('pylon_update_team_members', async () => {
+		const { text } = await call('pylon_update_team_members', {
+			id: 'Support',
+			user_ids: ['Walter Skinner', 'dana@example.com'],
+		});
+		expect(text).toBe(
+			[
+				'Team Support (team_support): 2 → 3 members',
+				'Added: walter@example.com (user_walter)',
+				'Already members: user_dana',
+				'Before: dana@example.com (user_dana), fox@example.com (user_fox)',
+				'After: dana@example.com (user_dana), fox@example.com (user_fox), walter@example.com (user_walter)',
+			].join('\n'),
+		);
+		expect(mock.requestsTo('PATCH', '/teams/team_support')[0]?.body).toEqual({
+			user_ids: ['user_dana', 'user_fox', 'user_walter'],
+		});
+	});
+
+	it('pylon_update_team_members removes members', async () => {
+		const { text } = await call('pylon_update_team_members', {
+			id: 'team_support',
+			user_ids: ['fox@example.com', 'user_walter'],
+			operation: 'remove',
+		});
+		expect(text).toContain('Team Support (team_support): 2 → 1 member');
+		expect(text).toContain('Removed: fox@example.com (user_fox)');
+		expect(text).toContain('Not members: user_walter');
+		expect(mock.state.teams[0]?.['users']).toEqual([
+			{ id: 'user_dana', email: 'dana@example.com' },
+		]);
+	});
+
+	it('pylon_update_team_members without changes', async () => {
+		const { text } = await call('pylon_update_team_members', {
+			id: 'engineering',
+			user_ids: ['user_fox'],
+			operation: 'remove',
+		});
+		expect(text).toContain('Team Engineering (team_eng): 0 → 0 members');
+		expect(text).toContain('No changes.');
+		expect(mock.requestsTo('PATCH', '/teams/team_eng')).toHaveLength(0);
+	});
+
+	it('pylon_delete_team', async () => {
+		const { text } = await call('pylon_delete_team', { id: 'Engineering' });
+		expect(JSON.parse(text)).toMatchObject({ data: { success: true } });
+		expect(mock.state.teams.map((team) => team.id)).toEqual(['team_support']);
+
+		const again = await call('pylon_delete_team', { id: 'Engineering' });
+		expect(again.isError).toBe(true);
+		expect(again.text).toContain('No team matches "Engineering"');
+	});
+});
+
+describe('custom field tools', () => {
+	it('pylon_list_custom_fields', async () => {
+		const { text } = await call('pylon_list_custom_fields', {
+			object_type: 'issue',
+		});
+		expect(text).toContain(
+			'| severity | Severity | select | issue | sev1, sev2, sev3 |',
+		);
+		expect(text).toContain(
+			'| affected_users | Affected users | number | issue | - |',
+		);
+		expect(text).not.toContain('renewal_date');
+
+		const all = await call('pylon_list_custom_fields');
+		expect(all.text).toContain(
+			'| renewal_date | Renewal date | date | account | - |',
+		);
+		expect(all.text).toContain(
+			'| champion | Champion | boolean | contact | - |',
+		);
+	});
+});
+
+describe('ticket form tools', () => {
+	it('pylon_list_ticket_forms', async () => {
+		const { text } = await call('pylon_list_ticket_forms');
+		expect(text).toContain(
+			'| form_bug | Bug report | yes | title, priority, severity, components |',
+		);
+		expect(text).toContain('| form_question | Question | no | title |');
+	});
+
+	it('pylon_get_ticket_form', async () => {
+		const { text } = await call('pylon_get_ticket_form', { id: 'Bug Report' });
+		expect(text).toContain('Bug report (form_bug)\nReport something broken');
+		expect(text).toContain('| severity | Severity | select | yes |');
+		expect(text).toContain('| affected_users | Affected users | number | no |');
+		expect(text).toContain('| title | Subject | - | yes |');
+	});
+
+	it('pylon_get_ticket_form with an unknown form', async () => {
+		const result = await call('pylon_get_ticket_form', { id: 'Feedback' });
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain('No ticket form matches "Feedback"');
+	});
+});
+
+describe('user tools', () => {
+	it('pylon_list_users', async () => {
+		const { text } = await call('pylon_list_users');
+		expect(text).toContain('| user_dana | Dana Scully | dana@example.com |');
+		expect(text).toContain('| user_walter | Walter Skinner |');
+	});
+
+	it('pylon_find_user by partial name', async () => {
+		const { text } = await call('pylon_find_user', { query: 'dana' });
+		expect(text).toBe(
+			[
+				'| ID | Name | Email |',
+				'|---|---|---|',
+				'| user_dana | Dana Scully | dana@example.com |',
+			].join('\n'),
+		);
+	});
+
+	it('pylon_find_user by email', async () => {
+		const { text } = await call('pylon_find_user', {
+			query: 'Fox@Example.com',
+		});
+		expect(text).toContain('| user_fox | Fox Mulder |');
+		expect(mock.requestsTo('GET', '/users')).toHaveLength(0);
+	});
+
+	it('pylon_find_user with several or no matches', async () => {
+		const several = await call('pylon_find_user', { query: 'example.com' });
+		expect(several.text).toContain('3 users match "example.com"');
+
+		const none = await call('pylon_find_user', { query: 'Scully Mulder' });
+		expect(none.text).toBe(
+			'No users match "Scully Mulder". Use pylon_list_users to browse all users.',
+		);
+	});
+
+	it('pylon_find_user reuses the cached user directory', async () => {
+		await call('pylon_find_user', { query: 'dana' });
+		await call('pylon_find_user', { query: 'walter' });
+		await call('pylon_update_issue', { id: '1001', assignee_id: 'Fox Mulder' });
+		expect(mock.requestsTo('GET', '/users')).toHaveLength(1);
+	});
+});
+
+describe('fetchPages', () => {
+	it('dedupes items repeated across pages', async () => {
+		const first: PaginatedResponse<{ id: string }> = {
+			data: [{ id: 'a' }, { id: 'b' }],
+			pagination: { cursor: '2', has_next_page: true },
+			request_id: 'req_1',
+		};
+		const second: PaginatedResponse<{ id: string }> = {
+			data: [{ id: 'b' }, { id: 'c' }],
+			pagination: { cursor: null, has_next_page: false },
+			request_id: 'req_2',
+		};
+		const fetchPage = vi.fn(async ({ cursor }: PaginationParams) =>
+			cursor ? second : first,
+		);
+		const { items, footer, requestIds } = await fetchPages(
+			new PylonClient({ apiToken: 'test-token' }),
+			fetchPage,
+			{ limit: 2, fetchAll: true },
+		);
+		expect(items.map((item) => item.id)).toEqual(['a', 'b', 'c']);
+		expect(footer).toContain('All 3 results returned.');
+		expect(requestIds.get('c')).toBe('req_2');
+		expect(fetchPage).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe('fetchFilterPlan', () => {
+	it('orders combined results newest first whichever search ran first', async () => {
+		const byState: Record<string, { id: string; created_at: string }[]> = {
+			new: [
+				{ id: 'a', created_at: '2025-01-01T00:00:00Z' },
+				{ id: 'c', created_at: '2025-03-01T00:00:00Z' },
+			],
+			closed: [
+				{ id: 'b', created_at: '2025-02-01T00:00:00Z' },
+				{ id: 'd', created_at: '2025-03-01T00:00:00Z' },
+			],
+		};
+		const fetchQuery = async (conditions: FilterConditions) => {
+			const state = String(conditions['state']?.['equals']);
+			return {
+				items: byState[state] ?? [],
+				footer: '',
+				requestIds: new Map<string, string>(),
+			};
+		};
+		const plan = (first: string, second: string): FilterPlan => ({
+			kind: 'or',
+			children: [
+				{ kind: 'query', conditions: { state: { equals: first } } },
+				{ kind: 'query', conditions: { state: { equals: second } } },
+			],
+		});
+		for (const [first, second] of [
+			['new', 'closed'],
+			['closed', 'new'],
+		] as const) {
+			const { items } = await fetchFilterPlan(plan(first, second), fetchQuery, {
+				limit: 3,
+			});
+			expect(items.map((item) => item.id)).toEqual(['c', 'd', 'b']);
+		}
+	});
+});
+
+describe('errors', () => {
+	it('reports missing resources as tool errors', async () => {
+		const result = await call('pylon_get_issue', { id: '9999' });
+		expect(result.isError).toBe(true);
+		expect(result.text).toMatch(
+			/^Error: Issue 9999 not found \(request_id: req_\d+\)$/,
+		);
+	});
+
+	it('reports an invalid token as a tool error', async () => {
+		await mcp.close();
+		await mock.stop();
+		mcp = await connect('wrong-token');
+		const result = await call('pylon_get_organization');
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain('Pylon rejected the API token (401)');
+	});
+
+	it('reports validation errors from Pylon', async () => {
+		const result = await call('pylon_create_account', { name: '' });
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain('name is required');
+	});
+});
+
+describe('coverage', () => {
+	it.each([
+		['pylon_search_issues', 'issue'],
+		['pylon_search_accounts', 'account'],
+		['pylon_search_contacts', 'contact'],
+	] as const)('%s filters on the registered fields', async (name, objectType) => {
+		const { tools } = await mcp.listTools();
+		const filter = tools.find((tool) => tool.name === name)?.inputSchema
+			.properties?.['filter'] as { properties: Record<string, unknown> };
+		expect(Object.keys(filter.properties)).toEqual([
+			...Object.keys(FILTER_FIELDS[objectType]),
+			'and',
+			'or',
+			'not',
+		]);
+	});
+
+	it('exercises every registered tool', async () => {
+		const { tools } = await mcp.listTools();
+		const untested = tools
+			.map((tool) => tool.name)
+			.filter((name) => !calledTools.has(name));
+		expect(untested).toEqual([]);
+	});
+});